@@ -0,0 +1,14 @@
+-- Scheduled retargeting: a QR_Target that becomes current inside a time window.
+-- While a schedule is active /r/:slug uses its target instead of QR_Code.CurrentTargetId;
+-- once EndsAt passes the code falls back to CurrentTargetId again.
+CREATE TABLE dbo.[QR_Target_Schedule] (
+  Id          UNIQUEIDENTIFIER NOT NULL CONSTRAINT DF_QR_Target_Schedule_Id DEFAULT NEWID() PRIMARY KEY,
+  QR_Code_Id  UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[QR_Code](Id) ON DELETE CASCADE,
+  Target_Id   UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[QR_Target](Id),
+  StartsAt    DATETIME2        NOT NULL,
+  EndsAt      DATETIME2        NULL,
+  CanceledAt  DATETIME2        NULL,
+  CreatedAt   DATETIME2        NOT NULL CONSTRAINT DF_QR_Target_Schedule_CreatedAt DEFAULT SYSUTCDATETIME()
+);
+
+CREATE INDEX IX_QR_Target_Schedule_QR ON dbo.[QR_Target_Schedule] (QR_Code_Id, StartsAt);
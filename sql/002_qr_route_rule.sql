@@ -0,0 +1,16 @@
+-- Ordered routing rules evaluated by /r/:slug before falling back to the current target.
+-- Conditions is a JSON object: { os?, device?, country?, region?, lang? } each an array of strings.
+CREATE TABLE dbo.[QR_Route_Rule] (
+  Id          UNIQUEIDENTIFIER NOT NULL CONSTRAINT DF_QR_Route_Rule_Id DEFAULT NEWID() PRIMARY KEY,
+  QR_Code_Id  UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[QR_Code](Id) ON DELETE CASCADE,
+  Target_Id   UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[QR_Target](Id),
+  Position    INT              NOT NULL,
+  Name        NVARCHAR(200)    NULL,
+  Conditions  NVARCHAR(MAX)    NOT NULL,
+  CreatedAt   DATETIME2        NOT NULL CONSTRAINT DF_QR_Route_Rule_CreatedAt DEFAULT SYSUTCDATETIME()
+);
+
+CREATE INDEX IX_QR_Route_Rule_QR ON dbo.[QR_Route_Rule] (QR_Code_Id, Position);
+
+-- Which rule (if any) picked the target for a scan
+ALTER TABLE dbo.[QR_Scan] ADD Rule_Id UNIQUEIDENTIFIER NULL;
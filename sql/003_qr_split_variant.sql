@@ -0,0 +1,25 @@
+-- Weighted A/B split: when a QR has variants, /r/:slug assigns each scanner to one
+-- (sticky through a cookie) unless a routing rule matched first.
+CREATE TABLE dbo.[QR_Split_Variant] (
+  Id          UNIQUEIDENTIFIER NOT NULL CONSTRAINT DF_QR_Split_Variant_Id DEFAULT NEWID() PRIMARY KEY,
+  QR_Code_Id  UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[QR_Code](Id) ON DELETE CASCADE,
+  Target_Id   UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[QR_Target](Id),
+  Position    INT              NOT NULL,
+  Name        NVARCHAR(200)    NOT NULL,
+  Weight      INT              NOT NULL,
+  CreatedAt   DATETIME2        NOT NULL CONSTRAINT DF_QR_Split_Variant_CreatedAt DEFAULT SYSUTCDATETIME()
+);
+
+CREATE INDEX IX_QR_Split_Variant_QR ON dbo.[QR_Split_Variant] (QR_Code_Id, Position);
+
+ALTER TABLE dbo.[QR_Scan] ADD Variant_Id UNIQUEIDENTIFIER NULL;
+
+-- Conversions reported back for a scanner's assigned variant
+CREATE TABLE dbo.[QR_Conversion] (
+  Id          UNIQUEIDENTIFIER NOT NULL CONSTRAINT DF_QR_Conversion_Id DEFAULT NEWID() PRIMARY KEY,
+  QR_Code_Id  UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[QR_Code](Id) ON DELETE CASCADE,
+  Variant_Id  UNIQUEIDENTIFIER NOT NULL,
+  OccurredAt  DATETIME2        NOT NULL CONSTRAINT DF_QR_Conversion_OccurredAt DEFAULT SYSUTCDATETIME()
+);
+
+CREATE INDEX IX_QR_Conversion_Variant ON dbo.[QR_Conversion] (Variant_Id);
@@ -0,0 +1,14 @@
+-- Per-QR access policy enforced by /r/:slug. Every column is optional; a missing
+-- row or NULL column means "no restriction".
+CREATE TABLE dbo.[QR_Policy] (
+  QR_Code_Id       UNIQUEIDENTIFIER NOT NULL PRIMARY KEY REFERENCES dbo.[QR_Code](Id) ON DELETE CASCADE,
+  ExpiresAt        DATETIME2        NULL,
+  MaxScans         INT              NULL,           -- counted from non-prefetch QR_Scan rows
+  ActiveStart      NVARCHAR(5)      NULL,           -- 'HH:MM', window may cross midnight
+  ActiveEnd        NVARCHAR(5)      NULL,
+  Timezone         NVARCHAR(64)     NULL,           -- IANA name used for the active window, default UTC
+  Password_Hash    NVARCHAR(300)    NULL,
+  FallbackUrl      NVARCHAR(2048)   NULL,           -- where expired/exhausted scans go instead of an error page
+  FallbackMessage  NVARCHAR(1000)   NULL,
+  UpdatedAt        DATETIME2        NOT NULL CONSTRAINT DF_QR_Policy_UpdatedAt DEFAULT SYSUTCDATETIME()
+);
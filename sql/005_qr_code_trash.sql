@@ -0,0 +1,5 @@
+-- Soft delete: /qr/:slug/delete stamps DeletedAt; the purge job removes rows
+-- (with their targets and scans) once they have been in the trash for TRASH_RETENTION_DAYS.
+ALTER TABLE dbo.[QR_Code] ADD DeletedAt DATETIME2 NULL;
+
+CREATE INDEX IX_QR_Code_DeletedAt ON dbo.[QR_Code] (DeletedAt) WHERE DeletedAt IS NOT NULL;
@@ -0,0 +1,9 @@
+-- Old slugs kept after a rename. They keep resolving in /r/:slug (printed codes) and
+-- stay reserved so nobody else can claim them until the owner removes the alias.
+CREATE TABLE dbo.[QR_Slug_Alias] (
+  Slug        NVARCHAR(64)     NOT NULL PRIMARY KEY,
+  QR_Code_Id  UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[QR_Code](Id) ON DELETE CASCADE,
+  CreatedAt   DATETIME2        NOT NULL CONSTRAINT DF_QR_Slug_Alias_CreatedAt DEFAULT SYSUTCDATETIME()
+);
+
+CREATE INDEX IX_QR_Slug_Alias_QR ON dbo.[QR_Slug_Alias] (QR_Code_Id);
@@ -0,0 +1,7 @@
+-- Typed payloads (vCard, MeCard, Wi-Fi, email, SMS, geo, calendar event).
+-- A payload version is a QR_Target row without a Url; Payload holds the validated JSON.
+ALTER TABLE dbo.[QR_Target] ALTER COLUMN Url NVARCHAR(2048) NULL;
+ALTER TABLE dbo.[QR_Target] ADD PayloadType NVARCHAR(20) NULL, Payload NVARCHAR(MAX) NULL;
+
+-- Static codes carry the payload in the symbol itself; dynamic ones encode /r/:slug
+ALTER TABLE dbo.[QR_Code] ADD Static BIT NOT NULL CONSTRAINT DF_QR_Code_Static DEFAULT 0;
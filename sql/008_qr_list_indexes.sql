@@ -0,0 +1,4 @@
+-- Support the server-side /api/my/qr listing: per-user filtering/sorting and per-code scan counts.
+CREATE INDEX IX_QR_Code_User_List ON dbo.[QR_Code] (User_Id, Archived, DeletedAt, CreatedAt) INCLUDE (Name, Slug);
+
+CREATE INDEX IX_QR_Scan_QR_Prefetch ON dbo.[QR_Scan] (QR_Code_Id, Is_Prefetch);
@@ -0,0 +1,20 @@
+-- Named design presets (brand kits) per user. Codes linked through QR_Code.Preset_Id render
+-- with the preset's current design, so editing a preset restyles every linked code.
+-- QR_Code.Design keeps a snapshot so unlinking (or deleting the preset) leaves the look unchanged.
+CREATE TABLE dbo.[QR_Design_Preset] (
+  Id          UNIQUEIDENTIFIER NOT NULL PRIMARY KEY CONSTRAINT DF_QR_Design_Preset_Id DEFAULT NEWID(),
+  User_Id     UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[User](Id),
+  Name        NVARCHAR(100)    NOT NULL,
+  Design      NVARCHAR(MAX)    NOT NULL,   -- same shape as QR_Code.Design
+  IsDefault   BIT              NOT NULL CONSTRAINT DF_QR_Design_Preset_IsDefault DEFAULT 0,
+  CreatedAt   DATETIME2        NOT NULL CONSTRAINT DF_QR_Design_Preset_CreatedAt DEFAULT SYSUTCDATETIME(),
+  UpdatedAt   DATETIME2        NOT NULL CONSTRAINT DF_QR_Design_Preset_UpdatedAt DEFAULT SYSUTCDATETIME(),
+  CONSTRAINT UQ_QR_Design_Preset_Name UNIQUE (User_Id, Name)
+);
+
+-- At most one default preset per user (applied by /qr/create)
+CREATE UNIQUE INDEX UX_QR_Design_Preset_Default ON dbo.[QR_Design_Preset] (User_Id) WHERE IsDefault = 1;
+
+ALTER TABLE dbo.[QR_Code] ADD Preset_Id UNIQUEIDENTIFIER NULL REFERENCES dbo.[QR_Design_Preset](Id);
+
+CREATE INDEX IX_QR_Code_Preset ON dbo.[QR_Code] (Preset_Id) WHERE Preset_Id IS NOT NULL;
@@ -0,0 +1,40 @@
+-- Tags become their own rows: one name and color per user, linked to codes through QR_Code_Tag.
+-- Replaces the JSON array in QR_Code.Tags; the backfill below keeps the first color seen per name.
+CREATE TABLE dbo.[QR_Tag] (
+  Id          UNIQUEIDENTIFIER NOT NULL PRIMARY KEY CONSTRAINT DF_QR_Tag_Id DEFAULT NEWID(),
+  User_Id     UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[User](Id),
+  Name        NVARCHAR(50)     NOT NULL,   -- unique per user, case-insensitive under the default collation
+  Color       NVARCHAR(20)     NOT NULL,
+  CreatedAt   DATETIME2        NOT NULL CONSTRAINT DF_QR_Tag_CreatedAt DEFAULT SYSUTCDATETIME(),
+  CONSTRAINT UQ_QR_Tag_Name UNIQUE (User_Id, Name)
+);
+
+CREATE TABLE dbo.[QR_Code_Tag] (
+  QR_Code_Id  UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[QR_Code](Id) ON DELETE CASCADE,
+  Tag_Id      UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[QR_Tag](Id) ON DELETE CASCADE,
+  CONSTRAINT PK_QR_Code_Tag PRIMARY KEY (QR_Code_Id, Tag_Id)
+);
+
+CREATE INDEX IX_QR_Code_Tag_Tag ON dbo.[QR_Code_Tag] (Tag_Id);
+
+WITH src AS (
+  SELECT q.Id AS QR_Code_Id, q.User_Id, q.CreatedAt, LTRIM(RTRIM(j.name)) AS Name, j.color AS Color
+  FROM dbo.[QR_Code] q
+  CROSS APPLY OPENJSON(CASE WHEN ISJSON(q.Tags) = 1 THEN q.Tags END) WITH (name NVARCHAR(50) '$.name', color NVARCHAR(20) '$.color') j
+  WHERE NULLIF(LTRIM(RTRIM(j.name)), '') IS NOT NULL
+),
+firsts AS (
+  SELECT User_Id, Name, Color,
+    ROW_NUMBER() OVER (PARTITION BY User_Id, Name ORDER BY CreatedAt) AS rn
+  FROM src
+)
+INSERT INTO dbo.[QR_Tag] (User_Id, Name, Color)
+SELECT User_Id, Name, COALESCE(Color, '#4ecdc4') FROM firsts WHERE rn = 1;
+
+INSERT INTO dbo.[QR_Code_Tag] (QR_Code_Id, Tag_Id)
+SELECT DISTINCT q.Id, t.Id
+FROM dbo.[QR_Code] q
+CROSS APPLY OPENJSON(CASE WHEN ISJSON(q.Tags) = 1 THEN q.Tags END) WITH (name NVARCHAR(50) '$.name') j
+JOIN dbo.[QR_Tag] t ON t.User_Id = q.User_Id AND t.Name = LTRIM(RTRIM(j.name));
+
+ALTER TABLE dbo.[QR_Code] DROP COLUMN Tags;
@@ -0,0 +1,3 @@
+-- Query params a scan of /r/:slug passes on to the destination URL. JSON array of names;
+-- an entry ending in * matches by prefix. NULL forwards nothing.
+ALTER TABLE dbo.[QR_Code] ADD ForwardParams NVARCHAR(MAX) NULL;
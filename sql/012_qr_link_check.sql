@@ -0,0 +1,18 @@
+-- History of destination health checks (background job + on-demand). The latest row per code
+-- decides whether /api/my/qr flags it as broken.
+CREATE TABLE dbo.[QR_Link_Check] (
+  Id          UNIQUEIDENTIFIER NOT NULL CONSTRAINT DF_QR_Link_Check_Id DEFAULT NEWID() PRIMARY KEY,
+  QR_Code_Id  UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[QR_Code](Id) ON DELETE CASCADE,
+  Target_Id   UNIQUEIDENTIFIER NOT NULL,
+  Url         NVARCHAR(2048)   NOT NULL,
+  CheckedAt   DATETIME2        NOT NULL CONSTRAINT DF_QR_Link_Check_CheckedAt DEFAULT SYSUTCDATETIME(),
+  Ok          BIT              NOT NULL,
+  StatusCode  INT              NULL,       -- of the last hop; NULL when no response arrived
+  LatencyMs   INT              NOT NULL,   -- whole chain, redirects included
+  FinalUrl    NVARCHAR(2048)   NULL,
+  Redirects   INT              NOT NULL CONSTRAINT DF_QR_Link_Check_Redirects DEFAULT 0,
+  Error       NVARCHAR(1000)   NULL,
+  TlsError    NVARCHAR(200)    NULL        -- certificate/handshake error code, e.g. CERT_HAS_EXPIRED
+);
+
+CREATE INDEX IX_QR_Link_Check_QR ON dbo.[QR_Link_Check] (QR_Code_Id, CheckedAt DESC);
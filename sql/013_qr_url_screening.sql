@@ -0,0 +1,8 @@
+-- Destination screening verdicts. A flagged target still exists (history, rollback) but /r/:slug
+-- shows a warning page instead of redirecting to it.
+ALTER TABLE dbo.[QR_Target] ADD
+  FlagReason NVARCHAR(200) NULL,   -- e.g. "threat", "blocked_domain"; NULL = clean
+  FlagDetail NVARCHAR(500) NULL,
+  ScreenedAt DATETIME2     NULL;
+
+CREATE INDEX IX_QR_Target_ScreenedAt ON dbo.[QR_Target] (ScreenedAt) WHERE Url IS NOT NULL;
@@ -0,0 +1,41 @@
+-- Custom short-link domains (e.g. go.brand.com). A domain only serves /r/:slug once its owner has
+-- published the TXT token at _qr-verify.<host>. Codes with Domain_Id NULL live on PUBLIC_BASE_URL.
+CREATE TABLE dbo.[QR_Domain] (
+  Id           UNIQUEIDENTIFIER NOT NULL PRIMARY KEY CONSTRAINT DF_QR_Domain_Id DEFAULT NEWID(),
+  User_Id      UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[User](Id),
+  Host         NVARCHAR(253)    NOT NULL,   -- lower case, no port
+  VerifyToken  NVARCHAR(64)     NOT NULL,
+  VerifiedAt   DATETIME2        NULL,
+  CheckedAt    DATETIME2        NULL,       -- last verification attempt
+  CreatedAt    DATETIME2        NOT NULL CONSTRAINT DF_QR_Domain_CreatedAt DEFAULT SYSUTCDATETIME(),
+  CONSTRAINT UQ_QR_Domain_User_Host UNIQUE (User_Id, Host)
+);
+
+-- Several users may claim a host; only one can prove it
+CREATE UNIQUE INDEX UX_QR_Domain_Verified_Host ON dbo.[QR_Domain] (Host) WHERE VerifiedAt IS NOT NULL;
+
+ALTER TABLE dbo.[QR_Code] ADD Domain_Id UNIQUEIDENTIFIER NULL REFERENCES dbo.[QR_Domain](Id);
+ALTER TABLE dbo.[QR_Slug_Alias] ADD Domain_Id UNIQUEIDENTIFIER NULL REFERENCES dbo.[QR_Domain](Id);
+
+-- Slugs become unique per domain instead of globally: drop the single-column unique
+-- constraints/indexes on Slug (their names were generated) and key on (Domain_Id, Slug).
+DECLARE @drop NVARCHAR(MAX) = N'';
+SELECT @drop = @drop +
+  CASE WHEN i.is_primary_key = 1 OR i.is_unique_constraint = 1
+    THEN N'ALTER TABLE ' + QUOTENAME(SCHEMA_NAME(o.schema_id)) + N'.' + QUOTENAME(o.name) + N' DROP CONSTRAINT ' + QUOTENAME(i.name) + N';'
+    ELSE N'DROP INDEX ' + QUOTENAME(i.name) + N' ON ' + QUOTENAME(SCHEMA_NAME(o.schema_id)) + N'.' + QUOTENAME(o.name) + N';'
+  END
+FROM sys.indexes i
+JOIN sys.objects o ON o.object_id = i.object_id
+WHERE o.object_id IN (OBJECT_ID('dbo.QR_Code'), OBJECT_ID('dbo.QR_Slug_Alias'))
+  AND i.is_unique = 1
+  AND (SELECT COUNT(*) FROM sys.index_columns ic WHERE ic.object_id = i.object_id AND ic.index_id = i.index_id AND ic.is_included_column = 0) = 1
+  AND EXISTS (
+    SELECT 1 FROM sys.index_columns ic
+    JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+    WHERE ic.object_id = i.object_id AND ic.index_id = i.index_id AND c.name = 'Slug'
+  );
+EXEC sp_executesql @drop;
+
+CREATE UNIQUE INDEX UX_QR_Code_Domain_Slug ON dbo.[QR_Code] (Domain_Id, Slug);
+CREATE UNIQUE INDEX UX_QR_Slug_Alias_Domain_Slug ON dbo.[QR_Slug_Alias] (Domain_Id, Slug);
@@ -0,0 +1,17 @@
+-- Uploaded logos, one row per user and content. Files are named by the SHA-256 of the stored
+-- (sanitized / re-encoded) bytes, so identical uploads share one file; designs reference an
+-- asset as /assets/<Id> in logoUrl.
+CREATE TABLE dbo.[QR_Asset] (
+  Id          UNIQUEIDENTIFIER NOT NULL PRIMARY KEY CONSTRAINT DF_QR_Asset_Id DEFAULT NEWID(),
+  User_Id     UNIQUEIDENTIFIER NOT NULL REFERENCES dbo.[User](Id),
+  Hash        CHAR(64)         NOT NULL,   -- hex SHA-256, also the stored file's name
+  Mime        NVARCHAR(50)     NOT NULL,
+  Width       INT              NULL,
+  Height      INT              NULL,
+  Bytes       INT              NOT NULL,
+  FileName    NVARCHAR(255)    NOT NULL,   -- as uploaded, for display
+  CreatedAt   DATETIME2        NOT NULL CONSTRAINT DF_QR_Asset_CreatedAt DEFAULT SYSUTCDATETIME(),
+  CONSTRAINT UQ_QR_Asset_User_Hash UNIQUE (User_Id, Hash)
+);
+
+CREATE INDEX IX_QR_Asset_Hash ON dbo.[QR_Asset] (Hash);
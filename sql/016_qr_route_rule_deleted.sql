@@ -0,0 +1,3 @@
+-- Saving rules updates them in place so QR_Scan.Rule_Id keeps pointing at them; a rule removed
+-- from the list is stamped DeletedAt instead of deleted, which keeps its scan history readable.
+ALTER TABLE dbo.[QR_Route_Rule] ADD DeletedAt DATETIME2 NULL;
@@ -0,0 +1,3 @@
+-- Saving variants updates them in place so QR_Scan.Variant_Id, QR_Conversion and the scanners'
+-- sticky cookies keep pointing at them; a removed variant is stamped DeletedAt instead of deleted.
+ALTER TABLE dbo.[QR_Split_Variant] ADD DeletedAt DATETIME2 NULL;
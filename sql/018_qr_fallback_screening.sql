@@ -0,0 +1,6 @@
+-- Screening verdict for a policy's FallbackUrl, kept up to date by the screening job like the
+-- ones on QR_Target. A flagged fallback gets the warning page instead of a redirect.
+ALTER TABLE dbo.[QR_Policy] ADD
+  FallbackFlagReason NVARCHAR(200) NULL,
+  FallbackFlagDetail NVARCHAR(500) NULL,
+  FallbackScreenedAt DATETIME2     NULL;
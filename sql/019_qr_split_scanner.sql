@@ -0,0 +1,8 @@
+-- Split-test results count scanners, not scans: each scanner in a test gets a random id (sticky
+-- through a cookie) that its scans and its conversion carry. Rows from before have no id and
+-- are left out of the rates.
+ALTER TABLE dbo.[QR_Scan] ADD Scanner_Id UNIQUEIDENTIFIER NULL;
+ALTER TABLE dbo.[QR_Conversion] ADD Scanner_Id UNIQUEIDENTIFIER NULL;
+
+CREATE INDEX IX_QR_Scan_Variant_Scanner ON dbo.[QR_Scan] (Variant_Id, Scanner_Id) WHERE Variant_Id IS NOT NULL;
+CREATE INDEX IX_QR_Conversion_Scanner ON dbo.[QR_Conversion] (Variant_Id, Scanner_Id) WHERE Scanner_Id IS NOT NULL;
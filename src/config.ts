@@ -13,6 +13,46 @@ const Env = z.object({
   ACCESS_TTL_MIN: z.coerce.number().default(60),   // access token lifetime (minutes)
   REFRESH_TTL_DAYS: z.coerce.number().default(30), // refresh token lifetime (days)
   COOKIE_DOMAIN: z.string().default('localhost'),
-});
+  PUBLIC_BASE_URL: z.string().default('http://localhost:8080'), // encoded into every QR as /r/:slug
+  CUSTOM_DOMAIN_SCHEME: z.enum(['http', 'https']).default('https'), // for codes on a user's own domain
+
+  // Trash + archive
+  TRASH_RETENTION_DAYS: z.coerce.number().default(30), // days a deleted code can be restored
+  ARCHIVED_REDIRECT_URL: z.string().url().optional(),  // "campaign ended" page for archived codes
+
+  // Password-protected codes: wrong guesses allowed per visitor IP and code before a lockout
+  PASSWORD_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(5),
+  PASSWORD_LOCKOUT_MIN: z.coerce.number().default(15), // window the attempts are counted in, and the lockout length
+
+  // Destination link health checks
+  LINK_CHECK_INTERVAL_HOURS: z.coerce.number().default(24), // how stale a check may get before the job re-runs it
+  LINK_CHECK_TIMEOUT_MS: z.coerce.number().default(10000),  // per request, each redirect hop included
+
+  // Destination screening (comma-separated domain lists; a domain also covers its subdomains)
+  URL_BLOCKLIST: z.string().default(''),
+  URL_ALLOWLIST: z.string().default(''),        // when set, only these domains may be used
+  URL_THREAT_LIST_FILE: z.string().optional(),  // hex SHA-256 prefixes, one per line (Safe Browsing style)
+  URL_SHORTENERS: z.string().default('bit.ly,tinyurl.com,t.co,goo.gl,ow.ly,is.gd,buff.ly,rebrand.ly,cutt.ly,shorturl.at,tiny.cc,rb.gy,t.ly,s.id'),
+  URL_SCREEN_INTERVAL_HOURS: z.coerce.number().default(24), // how often in-use destinations are re-screened
+
+  // Blob storage for logos, cached renders and exports
+  STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+  STORAGE_DIR: z.string().default('data'),              // local driver; share it between instances or use s3
+  S3_BUCKET: z.string().optional(),
+  S3_REGION: z.string().default('us-east-1'),
+  S3_ENDPOINT: z.string().url().optional(),             // e.g. http://localhost:9000 for MinIO; unset for AWS
+  S3_PUBLIC_ENDPOINT: z.string().url().optional(),      // host used in signed URLs when browsers can't reach S3_ENDPOINT
+  S3_FORCE_PATH_STYLE: z.stringbool().default(false),   // true for MinIO
+  S3_ACCESS_KEY_ID: z.string().optional(),              // unset: default AWS credential chain
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  SIGNED_URL_TTL_MIN: z.coerce.number().default(60),    // lifetime of download links for private objects
+  RENDER_CACHE_DAYS: z.coerce.number().default(30),     // rendered PNG/JPEG/WebP/PDF/EPS are reused this long; 0 disables
+  EXPORT_TTL_HOURS: z.coerce.number().default(24),      // exports delivered as links are deleted after this
+
+  // Logo asset library
+  ASSET_MAX_UPLOAD_MB: z.coerce.number().default(5),
+  ASSET_MAX_PX: z.coerce.number().default(1024),         // larger rasters are downscaled to fit
+  ASSET_ORPHAN_GRACE_HOURS: z.coerce.number().default(24), // unused uploads are kept this long before cleanup
+}).refine(e => e.STORAGE_DRIVER !== 's3' || !!e.S3_BUCKET, { message: 'S3_BUCKET is required when STORAGE_DRIVER=s3' });
 
 export const env = Env.parse(process.env);
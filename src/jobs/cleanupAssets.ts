@@ -0,0 +1,139 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { getPool, SQL } from '../db';
+import { env } from '../config';
+import {
+  ASSET_IN_USE, LEGACY_UPLOAD_DIR, assetUrl, deleteAssetFile, legacyUploadName, listAssetFiles,
+  prepareAsset, readLegacyUpload, removeAssetFile, saveAsset
+} from '../lib/assets';
+import type { PreparedAsset } from '../lib/assets';
+import { getStorage } from '../lib/storage';
+import { PAGE_TYPE } from '../lib/landingPages';
+
+const HOUR_MS = 3600 * 1000;
+
+// Removes uploads no design references once they are older than ASSET_ORPHAN_GRACE_HOURS (a logo
+// is uploaded before the design that uses it gets saved): unused asset records with their files,
+// stored files without a record, and files left in public/uploads by the old upload route. Legacy
+// logos still in use are moved into the owner's library first; files that can't be moved (or that
+// landing pages link to) are copied to blob storage so every instance can read them.
+export async function cleanupAssets(now = new Date()): Promise<{ assets: number; files: number; migrated: number }> {
+  const cutoff = new Date(now.getTime() - env.ASSET_ORPHAN_GRACE_HOURS * HOUR_MS);
+  const pool = await getPool();
+
+  const r = await pool.request()
+    .input('cutoff', SQL.DateTime2, cutoff)
+    .query(`
+      DELETE a
+      OUTPUT deleted.Hash
+      FROM dbo.[QR_Asset] a
+      WHERE a.CreatedAt < @cutoff AND NOT ${ASSET_IN_USE};
+    `);
+  let files = 0;
+  for (const hash of new Set<string>(r.recordset.map(row => row.Hash))) {
+    if (await removeAssetFile(hash)) files++;
+  }
+
+  const known = await pool.request().query('SELECT DISTINCT Hash FROM dbo.[QR_Asset];');
+  const hashes = new Set<string>(known.recordset.map(row => row.Hash));
+  for (const file of await listAssetFiles()) {
+    if (!hashes.has(file.name) && file.modified < cutoff) {
+      await deleteAssetFile(file.name);
+      files++;
+    }
+  }
+
+  const migrated = await migrateLegacyLogos();
+
+  // Legacy uploads are referenced by path (/uploads/<name>, sometimes percent-encoded) in the design
+  // and landing page JSON
+  const legacy = await fs.readdir(LEGACY_UPLOAD_DIR).catch(() => [] as string[]);
+  if (legacy.length) {
+    const designs = await pool.request()
+      .input('ptype', SQL.NVarChar(20), PAGE_TYPE)
+      .query(`
+        SELECT Design FROM dbo.[QR_Code] WHERE Design LIKE '%uploads%'
+        UNION ALL
+        SELECT Design FROM dbo.[QR_Design_Preset] WHERE Design LIKE '%uploads%'
+        UNION ALL
+        SELECT Payload FROM dbo.[QR_Target] WHERE PayloadType = @ptype AND Payload LIKE '%uploads%'
+      `);
+    const referenced = designs.recordset.map(row => {
+      const design = String(row.Design);
+      try { return `${design}\n${decodeURIComponent(design)}`; } catch { return design; }
+    }).join('\n');
+    const storage = getStorage();
+    for (const name of legacy) {
+      const file = path.join(LEGACY_UPLOAD_DIR, name);
+      const stat = await fs.stat(file).catch(() => null);
+      if (!stat?.isFile()) continue;
+      if (referenced.includes(`/uploads/${name}`)) {
+        const key = `uploads/${name}`;
+        try {
+          if (!(await storage.stat(key))) await storage.put(key, await fs.readFile(file));
+        } catch (e) {
+          console.error('Copying legacy upload to storage failed:', name, e);
+        }
+        continue;
+      }
+      if (stat.mtime < cutoff) {
+        await fs.rm(file, { force: true });
+        files++;
+      }
+    }
+  }
+
+  return { assets: r.recordset.length, files, migrated };
+}
+
+// Points every code and preset that still uses an /uploads logo at an asset holding the sanitized
+// file. The Design compare in the UPDATE skips rows edited since they were read; they are picked
+// up on the next run.
+async function migrateLegacyLogos(): Promise<number> {
+  const pool = await getPool();
+  const rows = await pool.request().query(`
+    SELECT 'QR_Code' AS Source, Id, User_Id, Design FROM dbo.[QR_Code] WHERE Design LIKE '%/uploads/%'
+    UNION ALL
+    SELECT 'QR_Design_Preset', Id, User_Id, Design FROM dbo.[QR_Design_Preset] WHERE Design LIKE '%/uploads/%'
+  `);
+
+  const prepared = new Map<string, PreparedAsset | null>();
+  let migrated = 0;
+  for (const row of rows.recordset) {
+    let design: any;
+    try { design = JSON.parse(row.Design); } catch { continue; }
+    const name = typeof design?.logoUrl === 'string' ? legacyUploadName(design.logoUrl) : null;
+    if (!name) continue;
+
+    if (!prepared.has(name)) {
+      const buf = await readLegacyUpload(name);
+      prepared.set(name, buf && await prepareAsset(buf).catch(e => {
+        console.error('Legacy upload is not a usable logo:', name, e.message);
+        return null;
+      }));
+    }
+    const asset = prepared.get(name);
+    if (!asset) continue;
+
+    try {
+      const saved = await saveAsset(row.User_Id, name, asset);
+      const u = await pool.request()
+        .input('id', SQL.UniqueIdentifier, row.Id)
+        .input('old', SQL.NVarChar(SQL.MAX), row.Design)
+        .input('design', SQL.NVarChar(SQL.MAX), JSON.stringify({ ...design, logoUrl: assetUrl(saved.Id) }))
+        .query(`UPDATE dbo.[${row.Source}] SET Design=@design WHERE Id=@id AND Design=@old;`);
+      if (u.rowsAffected[0]) migrated++;
+    } catch (e) {
+      console.error('Moving legacy logo into the asset library failed:', name, e);
+    }
+  }
+  return migrated;
+}
+
+export function startCleanupAssetsJob(log: { info: (...a: any[]) => void; error: (...a: any[]) => void }) {
+  const run = () => cleanupAssets()
+    .then(n => { if (n.assets || n.files || n.migrated) log.info(n, 'cleaned up unused logo assets'); })
+    .catch(err => log.error(err, 'asset cleanup failed'));
+  run();
+  return setInterval(run, 6 * HOUR_MS).unref();
+}
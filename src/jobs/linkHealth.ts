@@ -0,0 +1,53 @@
+import { getPool, SQL } from '../db';
+import { env } from '../config';
+import { httpClient, recordLinkCheck } from '../lib/linkCheck';
+import { LIVE_TARGET_ID } from '../lib/schedules';
+import type { HttpClient, LinkTarget } from '../lib/linkCheck';
+
+const HOUR_MS = 3600 * 1000;
+const BATCH_SIZE = 200;
+const CONCURRENCY = 5;
+
+// Check every live URL destination (a scheduled one while its schedule is active) whose last check is older than LINK_CHECK_INTERVAL_HOURS
+// (or that changed since). Typed payloads and hosted pages have no URL and are skipped.
+export async function checkStaleLinks(client: HttpClient = httpClient): Promise<number> {
+  const pool = await getPool();
+  const due = await pool.request()
+    .input('take', SQL.Int, BATCH_SIZE)
+    .input('cutoff', SQL.DateTime2, new Date(Date.now() - env.LINK_CHECK_INTERVAL_HOURS * HOUR_MS))
+    .query(`
+      SELECT TOP (@take) q.Id AS QR_Code_Id, t.Id AS Target_Id, t.Url
+      FROM dbo.[QR_Code] q
+      JOIN dbo.[QR_Target] t ON t.Id = ${LIVE_TARGET_ID}
+      OUTER APPLY (
+        SELECT TOP 1 c.CheckedAt, c.Target_Id FROM dbo.[QR_Link_Check] c
+        WHERE c.QR_Code_Id = q.Id ORDER BY c.CheckedAt DESC
+      ) last
+      WHERE q.DeletedAt IS NULL AND q.Archived = 0 AND t.Url IS NOT NULL
+        AND (last.CheckedAt IS NULL OR last.CheckedAt < @cutoff OR last.Target_Id <> t.Id)
+      ORDER BY last.CheckedAt
+    `);
+
+  const queue: LinkTarget[] = [...due.recordset];
+  const worker = async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      await recordLinkCheck(pool, next, client);
+    }
+  };
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  return due.recordset.length;
+}
+
+export function startLinkHealthJob(log: { info: (...a: any[]) => void; error: (...a: any[]) => void }, client: HttpClient = httpClient) {
+  let running = false;
+  const run = () => {
+    if (running) return;
+    running = true;
+    checkStaleLinks(client)
+      .then(n => { if (n) log.info({ checked: n }, 'checked QR destinations'); })
+      .catch(err => log.error(err, 'link health check failed'))
+      .finally(() => { running = false; });
+  };
+  run();
+  return setInterval(run, HOUR_MS).unref();
+}
@@ -0,0 +1,34 @@
+import { env } from '../config';
+import { EXPORT_PREFIX, getStorage } from '../lib/storage';
+import { RENDER_PREFIX } from '../lib/renderCache';
+
+const HOUR_MS = 3600 * 1000;
+
+// Drops cached renders older than RENDER_CACHE_DAYS (they are rebuilt on the next request) and
+// export files older than EXPORT_TTL_HOURS, whose signed links have expired by then.
+export async function pruneStorage(now = new Date()): Promise<{ renders: number; exports: number }> {
+  const storage = getStorage();
+  const prune = async (prefix: string, maxAgeMs: number) => {
+    const cutoff = now.getTime() - maxAgeMs;
+    let n = 0;
+    for (const blob of await storage.list(prefix)) {
+      if (blob.modified.getTime() < cutoff) {
+        await storage.delete(blob.key);
+        n++;
+      }
+    }
+    return n;
+  };
+  return {
+    renders: await prune(RENDER_PREFIX, env.RENDER_CACHE_DAYS * 24 * HOUR_MS),
+    exports: await prune(EXPORT_PREFIX, env.EXPORT_TTL_HOURS * HOUR_MS)
+  };
+}
+
+export function startPruneStorageJob(log: { info: (...a: any[]) => void; error: (...a: any[]) => void }) {
+  const run = () => pruneStorage()
+    .then(n => { if (n.renders || n.exports) log.info(n, 'pruned cached renders and exports'); })
+    .catch(err => log.error(err, 'storage prune failed'));
+  run();
+  return setInterval(run, HOUR_MS).unref();
+}
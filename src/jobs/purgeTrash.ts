@@ -0,0 +1,50 @@
+import { getPool, SQL } from '../db';
+import { env } from '../config';
+
+const HOUR_MS = 3600 * 1000;
+
+// Permanently remove codes that sat in the trash longer than TRASH_RETENTION_DAYS,
+// together with everything that hangs off them.
+export async function purgeTrash(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - env.TRASH_RETENTION_DAYS * 24 * HOUR_MS);
+  const pool = await getPool();
+
+  const tx = new SQL.Transaction(pool);
+  await tx.begin();
+  try {
+    const r = await new SQL.Request(tx)
+      .input('cutoff', SQL.DateTime2, cutoff)
+      .query(`
+        DECLARE @ids TABLE (Id UNIQUEIDENTIFIER PRIMARY KEY);
+        INSERT INTO @ids SELECT Id FROM dbo.[QR_Code] WHERE DeletedAt IS NOT NULL AND DeletedAt < @cutoff;
+
+        DELETE FROM dbo.[QR_Scan] WHERE QR_Code_Id IN (SELECT Id FROM @ids);
+        DELETE FROM dbo.[QR_Conversion] WHERE QR_Code_Id IN (SELECT Id FROM @ids);
+        DELETE FROM dbo.[QR_Target_Schedule] WHERE QR_Code_Id IN (SELECT Id FROM @ids);
+        DELETE FROM dbo.[QR_Route_Rule] WHERE QR_Code_Id IN (SELECT Id FROM @ids);
+        DELETE FROM dbo.[QR_Split_Variant] WHERE QR_Code_Id IN (SELECT Id FROM @ids);
+        DELETE FROM dbo.[QR_Policy] WHERE QR_Code_Id IN (SELECT Id FROM @ids);
+        DELETE FROM dbo.[QR_Slug_Alias] WHERE QR_Code_Id IN (SELECT Id FROM @ids);
+        DELETE FROM dbo.[QR_Code_Tag] WHERE QR_Code_Id IN (SELECT Id FROM @ids);
+        DELETE FROM dbo.[QR_Link_Check] WHERE QR_Code_Id IN (SELECT Id FROM @ids);
+        UPDATE dbo.[QR_Code] SET CurrentTargetId = NULL WHERE Id IN (SELECT Id FROM @ids);
+        DELETE FROM dbo.[QR_Target] WHERE QR_Code_Id IN (SELECT Id FROM @ids);
+        DELETE FROM dbo.[QR_Code] WHERE Id IN (SELECT Id FROM @ids);
+
+        SELECT COUNT(*) AS n FROM @ids;
+      `);
+    await tx.commit();
+    return r.recordset[0].n as number;
+  } catch (e) {
+    await tx.rollback();
+    throw e;
+  }
+}
+
+export function startPurgeTrashJob(log: { info: (...a: any[]) => void; error: (...a: any[]) => void }) {
+  const run = () => purgeTrash()
+    .then(n => { if (n) log.info({ purged: n }, 'purged trashed QR codes'); })
+    .catch(err => log.error(err, 'trash purge failed'));
+  run();
+  return setInterval(run, 6 * HOUR_MS).unref();
+}
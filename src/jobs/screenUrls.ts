@@ -0,0 +1,81 @@
+import { getPool, SQL } from '../db';
+import { env } from '../config';
+import { recordScreening, screenConfigUrl, screenUrl } from '../lib/screening';
+import { screenTarget } from '../lib/targets';
+import { PAGE_TYPE } from '../lib/landingPages';
+
+const HOUR_MS = 3600 * 1000;
+const BATCH_SIZE = 500;
+
+// Re-screen every URL target and hosted page a live code can still send people to (current, rule,
+// variant or pending schedule), and every policy fallback URL, once the last verdict is older than
+// URL_SCREEN_INTERVAL_HOURS. Threat lists and block lists change after a destination was accepted;
+// this is what catches that.
+export async function screenStaleTargets(): Promise<{ screened: number; flagged: number }> {
+  const pool = await getPool();
+  const due = await pool.request()
+    .input('take', SQL.Int, BATCH_SIZE)
+    .input('cutoff', SQL.DateTime2, new Date(Date.now() - env.URL_SCREEN_INTERVAL_HOURS * HOUR_MS))
+    .input('ptype', SQL.NVarChar(20), PAGE_TYPE)
+    .query(`
+      SELECT TOP (@take) t.Id, t.Url, t.PayloadType, t.Payload
+      FROM dbo.[QR_Target] t
+      JOIN dbo.[QR_Code] q ON q.Id = t.QR_Code_Id
+      WHERE q.DeletedAt IS NULL AND q.Archived = 0 AND (t.Url IS NOT NULL OR t.PayloadType = @ptype)
+        AND (t.ScreenedAt IS NULL OR t.ScreenedAt < @cutoff)
+        AND (
+          q.CurrentTargetId = t.Id
+          OR EXISTS (SELECT 1 FROM dbo.[QR_Route_Rule] rr WHERE rr.Target_Id = t.Id AND rr.DeletedAt IS NULL)
+          OR EXISTS (SELECT 1 FROM dbo.[QR_Split_Variant] v WHERE v.Target_Id = t.Id AND v.DeletedAt IS NULL)
+          OR EXISTS (SELECT 1 FROM dbo.[QR_Target_Schedule] s WHERE s.Target_Id = t.Id AND s.CanceledAt IS NULL AND (s.EndsAt IS NULL OR s.EndsAt > SYSUTCDATETIME()))
+        )
+      ORDER BY t.ScreenedAt
+    `);
+
+  let flagged = 0;
+  for (const target of due.recordset) {
+    const verdict = await screenTarget(target);
+    if (verdict) flagged++;
+    await recordScreening(pool, target.Id, verdict);
+  }
+
+  // Fallbacks apply to archived codes too
+  const fallbacks = await pool.request()
+    .input('take', SQL.Int, BATCH_SIZE)
+    .input('cutoff', SQL.DateTime2, new Date(Date.now() - env.URL_SCREEN_INTERVAL_HOURS * HOUR_MS))
+    .query(`
+      SELECT TOP (@take) p.QR_Code_Id, p.FallbackUrl
+      FROM dbo.[QR_Policy] p
+      JOIN dbo.[QR_Code] q ON q.Id = p.QR_Code_Id
+      WHERE q.DeletedAt IS NULL AND p.FallbackUrl IS NOT NULL
+        AND (p.FallbackScreenedAt IS NULL OR p.FallbackScreenedAt < @cutoff)
+      ORDER BY p.FallbackScreenedAt
+    `);
+  for (const policy of fallbacks.recordset) {
+    const verdict = await screenUrl(policy.FallbackUrl);
+    if (verdict) flagged++;
+    await pool.request()
+      .input('qid', SQL.UniqueIdentifier, policy.QR_Code_Id)
+      .input('reason', SQL.NVarChar(200), verdict?.reason ?? null)
+      .input('detail', SQL.NVarChar(500), verdict ? verdict.detail.slice(0, 500) : null)
+      .query('UPDATE dbo.[QR_Policy] SET FallbackFlagReason=@reason, FallbackFlagDetail=@detail, FallbackScreenedAt=SYSUTCDATETIME() WHERE QR_Code_Id=@qid;');
+  }
+
+  if (env.ARCHIVED_REDIRECT_URL) await screenConfigUrl(env.ARCHIVED_REDIRECT_URL);
+
+  return { screened: due.recordset.length + fallbacks.recordset.length, flagged };
+}
+
+export function startScreenUrlsJob(log: { info: (...a: any[]) => void; error: (...a: any[]) => void }) {
+  let running = false;
+  const run = () => {
+    if (running) return;
+    running = true;
+    screenStaleTargets()
+      .then(r => { if (r.screened) log.info(r, 'screened QR destinations'); })
+      .catch(err => log.error(err, 'destination screening failed'))
+      .finally(() => { running = false; });
+  };
+  run();
+  return setInterval(run, HOUR_MS).unref();
+}
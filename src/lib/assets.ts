@@ -0,0 +1,177 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import sharp from 'sharp';
+import { getPool, SQL } from '../db';
+import { env } from '../config';
+import { sanitizeSvg } from './svgSanitize';
+import { getStorage } from './storage';
+
+// Logo asset library. Uploads are identified by their bytes, never by name or extension: SVG is
+// sanitized, rasters are re-encoded (and downscaled past ASSET_MAX_PX), and the result is stored
+// once per content hash as assets/<hash> in blob storage. Designs point at an asset with logoUrl = /assets/<id>.
+
+export const ASSET_TYPES = ['png', 'jpeg', 'webp', 'svg'] as const;
+export type AssetType = typeof ASSET_TYPES[number];
+
+export const ASSET_MIME: Record<AssetType, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+export type PreparedAsset = { data: Buffer; mime: string; width: number | null; height: number | null; hash: string };
+
+export const ASSET_COLUMNS = 'a.Id, a.Hash, a.Mime, a.Width, a.Height, a.Bytes, a.FileName, a.CreatedAt';
+
+// Whether any code (trashed ones included, they can be restored) or preset uses asset a, as a logo
+// or from a hosted page. Every page version counts since any of them can be rolled back to.
+export const ASSET_IN_USE = `(
+  EXISTS (SELECT 1 FROM dbo.[QR_Code] uq WHERE uq.Design LIKE '%/assets/' + CONVERT(NVARCHAR(36), a.Id) + '%')
+  OR EXISTS (SELECT 1 FROM dbo.[QR_Design_Preset] up WHERE up.Design LIKE '%/assets/' + CONVERT(NVARCHAR(36), a.Id) + '%')
+  OR EXISTS (SELECT 1 FROM dbo.[QR_Target] ut WHERE ut.Payload LIKE '%/assets/' + CONVERT(NVARCHAR(36), a.Id) + '%')
+)`;
+
+// Sent with every stored upload: an SVG opened directly must not run script or load anything
+export const ASSET_CSP = "default-src 'none'; style-src 'unsafe-inline'; img-src data:; sandbox";
+
+const UUID_IN_PATH = /^\/assets\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+export function assetUrl(id: string) {
+  return `/assets/${id.toLowerCase()}`;
+}
+
+// Asset id from a logoUrl (relative, or absolute on any host)
+export function assetIdFromUrl(logoUrl: string): string | null {
+  let pathname = logoUrl;
+  if (/^https?:\/\//i.test(logoUrl)) {
+    try { pathname = new URL(logoUrl).pathname; } catch { return null; }
+  }
+  return UUID_IN_PATH.exec(pathname)?.[1].toLowerCase() ?? null;
+}
+
+// ---------- Type detection and processing ----------
+
+export function detectImageType(buf: Buffer): AssetType | null {
+  if (buf.length >= 8 && buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return 'jpeg';
+  if (buf.length >= 12 && buf.toString('latin1', 0, 4) === 'RIFF' && buf.toString('latin1', 8, 12) === 'WEBP') return 'webp';
+  // SVG is text: optional BOM, XML declaration, comments and doctype, then the <svg> root
+  const head = buf.subarray(0, 4096).toString('utf8').replace(/^\uFEFF/, '');
+  const rest = head.replace(/^(\s+|<\?xml[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>)*/i, '');
+  if (/^<svg[\s>]/.test(rest)) return 'svg';
+  return null;
+}
+
+export async function prepareAsset(buf: Buffer): Promise<PreparedAsset> {
+  const type = detectImageType(buf);
+  if (!type) throw new Error('Unsupported file: upload a PNG, JPEG, WebP or SVG image');
+
+  let data: Buffer, width: number | null, height: number | null;
+  if (type === 'svg') {
+    data = Buffer.from(sanitizeSvg(buf.toString('utf8')), 'utf8');
+    // The renderer has to be able to draw it
+    const meta = await sharp(data).metadata().catch(() => { throw new Error('The SVG could not be rendered'); });
+    width = meta.width ?? null;
+    height = meta.height ?? null;
+  } else {
+    // Re-encoding drops metadata and anything appended to the image
+    const img = sharp(buf, { limitInputPixels: 100_000_000 })
+      .rotate()
+      .resize(env.ASSET_MAX_PX, env.ASSET_MAX_PX, { fit: 'inside', withoutEnlargement: true });
+    const encoded = type === 'png' ? img.png() : type === 'jpeg' ? img.jpeg({ quality: 90 }) : img.webp({ quality: 90 });
+    const out = await encoded.toBuffer({ resolveWithObject: true }).catch(() => { throw new Error('The image could not be read'); });
+    data = out.data;
+    width = out.info.width;
+    height = out.info.height;
+  }
+  return { data, mime: ASSET_MIME[type], width, height, hash: crypto.createHash('sha256').update(data).digest('hex') };
+}
+
+// ---------- Storage ----------
+
+const PREFIX = 'assets/';
+
+function assetKey(hash: string) {
+  return `${PREFIX}${hash}`;
+}
+
+// Records the upload for the user; the same content uploaded again returns the existing asset
+export async function saveAsset(userId: string, fileName: string, asset: PreparedAsset) {
+  const storage = getStorage();
+  if (!(await storage.stat(assetKey(asset.hash)))) {
+    await storage.put(assetKey(asset.hash), asset.data, { contentType: asset.mime });
+  }
+
+  const pool = await getPool();
+  const r = await pool.request()
+    .input('uid', SQL.UniqueIdentifier, userId)
+    .input('hash', SQL.Char(64), asset.hash)
+    .input('mime', SQL.NVarChar(50), asset.mime)
+    .input('width', SQL.Int, asset.width)
+    .input('height', SQL.Int, asset.height)
+    .input('bytes', SQL.Int, asset.data.length)
+    .input('name', SQL.NVarChar(255), fileName.slice(0, 255) || 'logo')
+    .query(`
+      IF NOT EXISTS (SELECT 1 FROM dbo.[QR_Asset] WHERE User_Id=@uid AND Hash=@hash)
+        INSERT INTO dbo.[QR_Asset] (User_Id, Hash, Mime, Width, Height, Bytes, FileName)
+        VALUES (@uid, @hash, @mime, @width, @height, @bytes, @name);
+      SELECT TOP 1 ${ASSET_COLUMNS} FROM dbo.[QR_Asset] a WHERE a.User_Id=@uid AND a.Hash=@hash;
+    `);
+  return r.recordset[0];
+}
+
+export async function readAsset(id: string): Promise<{ mime: string; data: Buffer } | null> {
+  const pool = await getPool();
+  const r = await pool.request()
+    .input('id', SQL.UniqueIdentifier, id)
+    .query('SELECT TOP 1 Hash, Mime FROM dbo.[QR_Asset] WHERE Id=@id;');
+  if (!r.recordset.length) return null;
+  const { Hash, Mime } = r.recordset[0];
+  const data = await getStorage().get(assetKey(Hash));
+  return data ? { mime: Mime, data } : null;
+}
+
+// Removes the stored file once no asset row (of any user) has that content any more
+export async function removeAssetFile(hash: string) {
+  const pool = await getPool();
+  const r = await pool.request()
+    .input('hash', SQL.Char(64), hash)
+    .query('SELECT COUNT(*) AS n FROM dbo.[QR_Asset] WHERE Hash=@hash;');
+  if (r.recordset[0].n > 0) return false;
+  await deleteAssetFile(hash);
+  return true;
+}
+
+// Stored files (named by hash, plus leftovers of interrupted writes) for the cleanup job
+export async function listAssetFiles(): Promise<{ name: string; modified: Date }[]> {
+  const blobs = await getStorage().list(PREFIX);
+  return blobs.map(b => ({ name: b.key.slice(PREFIX.length), modified: b.modified }));
+}
+
+export async function deleteAssetFile(name: string) {
+  await getStorage().delete(assetKey(name));
+}
+
+// ---------- Legacy uploads ----------
+
+// Files uploaded before the asset library lived in public/uploads and were referenced by path
+// (/uploads/<name>, sometimes percent-encoded or absolute). The asset cleanup job moves the ones
+// designs still use into the library.
+export const LEGACY_UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads');
+
+export function legacyUploadName(logoUrl: string): string | null {
+  let pathname = logoUrl;
+  if (/^https?:\/\//i.test(logoUrl)) {
+    try { pathname = new URL(logoUrl).pathname; } catch { return null; }
+  }
+  if (!pathname.startsWith('/uploads/')) return null;
+  try { return path.basename(decodeURIComponent(pathname)) || null; } catch { return null; }
+}
+
+// Blob storage copy first (shared by all instances), then this instance's disk
+export async function readLegacyUpload(name: string): Promise<Buffer | null> {
+  return await getStorage().get(`uploads/${name}`).catch(() => null)
+    ?? await fs.readFile(path.join(LEGACY_UPLOAD_DIR, name)).catch(() => null);
+}
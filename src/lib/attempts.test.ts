@@ -0,0 +1,25 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { attemptLimiter } from './attempts';
+
+test('locks a key after max failures until the window ends', () => {
+  let t = 0;
+  const limiter = attemptLimiter(3, 60_000, () => t);
+  for (let i = 0; i < 3; i++) {
+    assert.equal(limiter.retryAfterMs('code|1.2.3.4'), 0);
+    limiter.fail('code|1.2.3.4');
+  }
+  assert.equal(limiter.retryAfterMs('code|1.2.3.4'), 60_000);
+  assert.equal(limiter.retryAfterMs('code|5.6.7.8'), 0);
+  assert.equal(limiter.retryAfterMs('other|1.2.3.4'), 0);
+  t = 60_000;
+  assert.equal(limiter.retryAfterMs('code|1.2.3.4'), 0);
+});
+
+test('a success clears the failures', () => {
+  const limiter = attemptLimiter(2, 60_000, () => 0);
+  limiter.fail('k');
+  limiter.clear('k');
+  limiter.fail('k');
+  assert.equal(limiter.retryAfterMs('k'), 0);
+});
@@ -0,0 +1,46 @@
+// Counts failed attempts per key (e.g. code + visitor IP) in a fixed window. Once `max` failures
+// are reached the key is locked until the window ends. Kept in memory: with several instances
+// each one enforces its own limit, which still bounds guessing to max x instances per window.
+
+export type AttemptLimiter = {
+  retryAfterMs(key: string): number; // 0 when another attempt is allowed
+  fail(key: string): void;
+  clear(key: string): void;
+};
+
+export function attemptLimiter(max: number, windowMs: number, now = () => Date.now()): AttemptLimiter {
+  const entries = new Map<string, { failures: number; resetAt: number }>();
+
+  const live = (key: string) => {
+    const entry = entries.get(key);
+    if (entry && entry.resetAt <= now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  // Expired entries are dropped as the map grows, so an attacker rotating IPs can't exhaust memory
+  const sweep = () => {
+    const t = now();
+    for (const [key, entry] of entries) if (entry.resetAt <= t) entries.delete(key);
+  };
+
+  return {
+    retryAfterMs(key) {
+      const entry = live(key);
+      return entry && entry.failures >= max ? entry.resetAt - now() : 0;
+    },
+    fail(key) {
+      const entry = live(key);
+      if (entry) entry.failures++;
+      else {
+        if (entries.size >= 10_000) sweep();
+        entries.set(key, { failures: 1, resetAt: now() + windowMs });
+      }
+    },
+    clear(key) {
+      entries.delete(key);
+    }
+  };
+}
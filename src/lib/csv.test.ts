@@ -0,0 +1,17 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { escapeCsvValue } from './csv';
+
+test('text that a spreadsheet would run as a formula is kept as text', () => {
+  assert.equal(escapeCsvValue('=HYPERLINK("http://x","y")'), `"'=HYPERLINK(""http://x"",""y"")"`);
+  assert.equal(escapeCsvValue('+1 555'), "'+1 555");
+  assert.equal(escapeCsvValue('-sale'), "'-sale");
+  assert.equal(escapeCsvValue('@SUM(A1)'), "'@SUM(A1)");
+});
+
+test('plain values and numbers are written unchanged', () => {
+  assert.equal(escapeCsvValue('Spring sale'), 'Spring sale');
+  assert.equal(escapeCsvValue(-5), '-5');
+  assert.equal(escapeCsvValue('a, b'), '"a, b"');
+  assert.equal(escapeCsvValue(null), '');
+});
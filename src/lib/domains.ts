@@ -0,0 +1,73 @@
+import { promises as dns } from 'dns';
+import { FastifyRequest } from 'fastify';
+import sql from 'mssql';
+import { env } from '../config';
+import { isUuid } from './presets';
+
+// TXT lookup: record name -> records, each split into chunks the way node:dns returns them.
+// Swappable so tests can use a local stub instead of real DNS.
+export type TxtResolver = (name: string) => Promise<string[][]>;
+
+export const dnsTxtResolver: TxtResolver = name => dns.resolveTxt(name);
+
+export const VERIFY_LABEL = '_qr-verify';
+const HOSTNAME = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{0,61}[a-z0-9]$/;
+
+// Joined into queries that need the host a code's short link lives on (alias q)
+export const DOMAIN_JOIN = 'LEFT JOIN dbo.[QR_Domain] d ON d.Id = q.Domain_Id';
+
+// NULL-safe "column belongs to the domain in @did" (NULL = PUBLIC_BASE_URL)
+export function sameDomain(column: string) {
+  return `(${column} = @did OR (${column} IS NULL AND @did IS NULL))`;
+}
+
+export function defaultHost() {
+  return new URL(env.PUBLIC_BASE_URL).hostname.toLowerCase();
+}
+
+export function normalizeHost(raw: string) {
+  const host = String(raw || '').trim().toLowerCase().replace(/\.$/, '');
+  if (!HOSTNAME.test(host)) throw new Error('Enter a domain name like go.example.com');
+  if (host === defaultHost()) throw new Error('This domain is already the default short-link domain');
+  return host;
+}
+
+export function verifyRecord(host: string, token: string) {
+  return { type: 'TXT', name: `${VERIFY_LABEL}.${host}`, value: `qr-verify=${token}` };
+}
+
+// True when _qr-verify.<host> carries the domain's token
+export async function checkDomainTxt(host: string, token: string, resolveTxt: TxtResolver = dnsTxtResolver) {
+  const { name, value } = verifyRecord(host, token);
+  let records: string[][];
+  try { records = await resolveTxt(name); }
+  catch { return false; }
+  return records.some(chunks => chunks.join('').trim() === value);
+}
+
+// Which domain a public request is for, from its Host header. Render routes also take ?domain=host
+// (viaQuery) because the dashboard shows codes of every domain from the main host.
+// Unknown or unverified hosts fall back to the default domain.
+export async function requestDomainId(conn: sql.ConnectionPool | sql.Transaction, req: FastifyRequest, viaQuery = false): Promise<string | null> {
+  const raw = (viaQuery && (req.query as any)?.domain) || req.hostname || '';
+  const host = String(raw).toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '');
+  if (!host || host === defaultHost()) return null;
+  const r = await conn.request()
+    .input('host', sql.NVarChar(253), host)
+    .query('SELECT TOP 1 Id FROM dbo.[QR_Domain] WHERE Host=@host AND VerifiedAt IS NOT NULL;');
+  return r.recordset.length ? r.recordset[0].Id as string : null;
+}
+
+// A domain id from user input: must be one of the user's verified domains. ''/null = default.
+export async function resolveUserDomain(conn: sql.ConnectionPool | sql.Transaction, userId: string, requested: unknown) {
+  if (requested === undefined || requested === null || requested === '') return null;
+  const id = String(requested);
+  if (!isUuid(id)) throw new Error('Domain not found');
+  const r = await conn.request()
+    .input('uid', sql.UniqueIdentifier, userId)
+    .input('did', sql.UniqueIdentifier, id)
+    .query('SELECT TOP 1 Id, VerifiedAt FROM dbo.[QR_Domain] WHERE Id=@did AND User_Id=@uid;');
+  if (!r.recordset.length) throw new Error('Domain not found');
+  if (!r.recordset[0].VerifiedAt) throw new Error('Verify the domain before using it');
+  return r.recordset[0].Id as string;
+}
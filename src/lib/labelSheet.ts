@@ -0,0 +1,170 @@
+import { drawPdf, layout, num, psString, rgbList } from './qrImage';
+import type { QrDesign } from './qrImage';
+import { FONT_FAMILIES, textWidth } from './qrFrame';
+import type { FrameFont } from './qrFrame';
+import { createPdfWriter } from './pdfWriter';
+
+// Print-ready sheets of many codes: Avery label templates, N-up grids or one code per page.
+// Every label carries the code drawn by the regular PDF renderer plus its name, slug and short
+// URL. Sizes are in points (1/72 in) with y measured from the top of the page.
+
+const IN = 72;
+const MM = 72 / 25.4;
+
+export const PAGE_SIZES = { a4: [210 * MM, 297 * MM], letter: [8.5 * IN, 11 * IN] } as const;
+export type PageSize = keyof typeof PAGE_SIZES;
+
+type SheetTemplate = {
+  page: PageSize;
+  cols: number;
+  rows: number;
+  width: number;  // label size
+  height: number;
+  left: number;   // first label's top-left corner
+  top: number;
+  pitchX: number; // distance between neighbouring labels' corners
+  pitchY: number;
+};
+
+export const AVERY_TEMPLATES: Record<string, SheetTemplate & { name: string }> = {
+  'avery-5160': { name: 'Avery 5160 (Letter, 30 per sheet, 2⅝" x 1")', page: 'letter', cols: 3, rows: 10, width: 2.625 * IN, height: IN, left: 0.1875 * IN, top: 0.5 * IN, pitchX: 2.75 * IN, pitchY: IN },
+  'avery-5163': { name: 'Avery 5163 (Letter, 10 per sheet, 4" x 2")', page: 'letter', cols: 2, rows: 5, width: 4 * IN, height: 2 * IN, left: 0.15625 * IN, top: 0.5 * IN, pitchX: 4.1875 * IN, pitchY: 2 * IN },
+  'avery-5164': { name: 'Avery 5164 (Letter, 6 per sheet, 4" x 3⅓")', page: 'letter', cols: 2, rows: 3, width: 4 * IN, height: 10 / 3 * IN, left: 0.15625 * IN, top: 0.5 * IN, pitchX: 4.1875 * IN, pitchY: 10 / 3 * IN },
+  'avery-l7160': { name: 'Avery L7160 (A4, 21 per sheet, 63.5 x 38.1 mm)', page: 'a4', cols: 3, rows: 7, width: 63.5 * MM, height: 38.1 * MM, left: 7.25 * MM, top: 15.15 * MM, pitchX: 66.04 * MM, pitchY: 38.1 * MM },
+  'avery-l7163': { name: 'Avery L7163 (A4, 14 per sheet, 99.1 x 38.1 mm)', page: 'a4', cols: 2, rows: 7, width: 99.1 * MM, height: 38.1 * MM, left: 4.65 * MM, top: 15.15 * MM, pitchX: 101.6 * MM, pitchY: 38.1 * MM }
+};
+
+export const SHEET_LAYOUTS = ['grid', 'page', ...Object.keys(AVERY_TEMPLATES)] as [string, ...string[]];
+export const MAX_BLEED_MM = 5;
+
+export type SheetOptions = {
+  layout: string;     // 'grid', 'page' (one code per page) or an AVERY_TEMPLATES key
+  page: PageSize;     // grid and page layouts; templates bring their own
+  cols: number;       // grid only
+  rows: number;
+  cropMarks: boolean;
+  bleedMm: number;    // background extends past the trim line, limited by the space between labels
+};
+
+export type SheetItem = { name: string; slug: string; shortUrl: string | null; content: string; design: QrDesign };
+
+// Trimmed N-up pages keep 12 mm for crop marks; labels are spaced so their bleeds don't overlap
+const GRID_MARGIN = 12 * MM;
+const MARK_OFFSET = 2 * MM;
+const MARK_LENGTH = 5 * MM;
+
+function sheetTemplate(opts: SheetOptions): SheetTemplate {
+  if (AVERY_TEMPLATES[opts.layout]) return AVERY_TEMPLATES[opts.layout];
+  const [pw, ph] = PAGE_SIZES[opts.page];
+  const cols = opts.layout === 'page' ? 1 : opts.cols;
+  const rows = opts.layout === 'page' ? 1 : opts.rows;
+  const gap = opts.bleedMm * MM * 2;
+  const width = (pw - GRID_MARGIN * 2 - gap * (cols - 1)) / cols;
+  const height = (ph - GRID_MARGIN * 2 - gap * (rows - 1)) / rows;
+  return { page: opts.page, cols, rows, width, height, left: GRID_MARGIN, top: GRID_MARGIN, pitchX: width + gap, pitchY: height + gap };
+}
+
+// Drops characters until the text fits, ending it with "..."
+function fitText(text: string, font: FrameFont, size: number, max: number) {
+  if (textWidth(text, font) * size <= max) return text;
+  let cut = text;
+  while (cut && textWidth(`${cut}...`, font) * size > max) cut = cut.slice(0, -1);
+  return cut ? `${cut.trimEnd()}...` : '';
+}
+
+export async function renderSheet(items: SheetItem[], opts: SheetOptions): Promise<Buffer> {
+  const t = sheetTemplate(opts);
+  const [pw, ph] = PAGE_SIZES[t.page];
+  const perPage = t.cols * t.rows;
+  // Bleed may not reach a neighbouring label or off the page
+  const bleed = Math.max(0, Math.min(opts.bleedMm * MM, (t.pitchX - t.width) / 2, (t.pitchY - t.height) / 2, t.left, t.top));
+  const pdf = createPdfWriter();
+
+  for (let start = 0; start < items.length; start += perPage) {
+    const ops: string[] = [];
+    const onPage = items.slice(start, start + perPage);
+
+    for (const [i, item] of onPage.entries()) {
+      const x = t.left + (i % t.cols) * t.pitchX;
+      const y = ph - (t.top + Math.floor(i / t.cols) * t.pitchY) - t.height; // bottom edge, y up
+      const { design } = item;
+      ops.push(`${rgbList(design.bg)} rg ${num(x - bleed)} ${num(y - bleed)} ${num(t.width + bleed * 2)} ${num(t.height + bleed * 2)} re f`);
+
+      const l = await layout(item.content, design, 2);
+      const aspect = l.height / l.width;
+      const pad = Math.min(t.width, t.height) * 0.07;
+      const size = Math.max(5, Math.min(16, Math.min(t.width, t.height) * 0.075));
+      const small = size * 0.8;
+      const lines: { text: string; font: FrameFont; size: number }[] = [
+        { text: item.name, font: 'sans', size },
+        { text: item.slug, font: 'mono', size: small },
+        ...(item.shortUrl ? [{ text: item.shortUrl, font: 'mono' as const, size: small }] : [])
+      ];
+      const textHeight = lines.reduce((sum, line) => sum + line.size * 1.25, 0);
+
+      // Wide labels put the text beside the code, the rest underneath it
+      const wide = t.width >= t.height * 1.6;
+      let codeW: number, codeX: number, codeY: number, textX: number, textTop: number, textMax: number, centered: boolean;
+      if (wide) {
+        codeW = Math.min((t.height - pad * 2) / aspect, (t.width - pad * 3) / 2);
+        codeX = x + pad;
+        codeY = y + (t.height - codeW * aspect) / 2;
+        textX = codeX + codeW + pad;
+        textMax = x + t.width - pad - textX;
+        textTop = y + t.height / 2 + textHeight / 2;
+        centered = false;
+      } else {
+        const boxH = t.height - pad * 2.5 - textHeight;
+        codeW = Math.min(t.width - pad * 2, boxH / aspect);
+        codeX = x + (t.width - codeW) / 2;
+        codeY = y + pad * 1.5 + textHeight;
+        textX = x + t.width / 2;
+        textMax = t.width - pad * 2;
+        textTop = codeY - pad * 0.5;
+        centered = true;
+      }
+
+      ops.push(`q 1 0 0 1 ${num(codeX)} ${num(codeY)} cm`, ...await drawPdf(pdf, l, design, codeW, true), 'Q');
+
+      let baseline = textTop;
+      for (const line of lines) {
+        baseline -= line.size * 1.25;
+        const text = fitText(line.text, line.font, line.size, textMax);
+        if (!text) continue;
+        const lx = centered ? textX - textWidth(text, line.font) * line.size / 2 : textX;
+        ops.push(`BT ${pdf.font(FONT_FAMILIES[line.font].postscript)} ${num(line.size)} Tf ${rgbList(design.fg)} rg ${num(lx)} ${num(baseline + line.size * 0.25)} Td ${psString(text)} Tj ET`);
+      }
+    }
+
+    if (opts.cropMarks) ops.push(...cropMarks(t, ph, bleed));
+    // A single label per page is the finished piece: its trim box tells the printer where to cut
+    pdf.page(pw, ph, ops, perPage === 1 ? [t.left, ph - t.top - t.height, t.left + t.width, ph - t.top] : undefined);
+  }
+  return pdf.finish();
+}
+
+// Marks along every column and row edge, in the page margins outside the bleed
+function cropMarks(t: SheetTemplate, ph: number, bleed: number) {
+  const [pw] = PAGE_SIZES[t.page];
+  const gridRight = t.left + (t.cols - 1) * t.pitchX + t.width;
+  const gridBottom = t.top + (t.rows - 1) * t.pitchY + t.height;
+  const room = Math.min(t.left, t.top, pw - gridRight, ph - gridBottom) - bleed - MARK_OFFSET;
+  const len = Math.min(MARK_LENGTH, room - 1 * MM);
+  if (len < 2 * MM) return [];
+
+  const start = bleed + MARK_OFFSET;
+  const lines: string[] = [];
+  const xs = new Set<number>(), ys = new Set<number>();
+  for (let c = 0; c < t.cols; c++) xs.add(t.left + c * t.pitchX).add(t.left + c * t.pitchX + t.width);
+  for (let r = 0; r < t.rows; r++) ys.add(t.top + r * t.pitchY).add(t.top + r * t.pitchY + t.height);
+  for (const x of xs) {
+    lines.push(`${num(x)} ${num(ph - t.top + start)} m ${num(x)} ${num(ph - t.top + start + len)} l`);
+    lines.push(`${num(x)} ${num(ph - gridBottom - start)} m ${num(x)} ${num(ph - gridBottom - start - len)} l`);
+  }
+  for (const y of ys) {
+    lines.push(`${num(t.left - start)} ${num(ph - y)} m ${num(t.left - start - len)} ${num(ph - y)} l`);
+    lines.push(`${num(gridRight + start)} ${num(ph - y)} m ${num(gridRight + start + len)} ${num(ph - y)} l`);
+  }
+  // Registration black, hairline
+  return ['q 0 0 0 RG 0.25 w', `${lines.join('\n')} S`, 'Q'];
+}
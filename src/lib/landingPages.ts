@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import { escapeHtml } from './pages';
+import { assetIdFromUrl } from './assets';
+
+// Hosted pages are QR_Target versions with PayloadType 'page' and this JSON as Payload
+export const PAGE_TYPE = 'page';
+
+// Absolute http(s) links, or files we serve: library uploads (/assets/<id>) and legacy /uploads
+const Href = z.string().trim().refine(u => {
+  if (u.startsWith('/uploads/') || (u.startsWith('/assets/') && assetIdFromUrl(u))) return true;
+  try { return /^https?:$/i.test(new URL(u).protocol); } catch { return false; }
+}, { message: 'Links must be http(s) URLs or uploaded files' });
+
+const Block = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('heading'), text: z.string().trim().min(1).max(200), level: z.coerce.number().int().min(1).max(3).default(1) }),
+  z.object({ type: z.literal('text'), text: z.string().trim().min(1).max(5000) }),
+  z.object({ type: z.literal('image'), url: Href, alt: z.string().trim().max(200).optional() }),
+  z.object({
+    type: z.literal('links'),
+    links: z.array(z.object({ label: z.string().trim().min(1).max(100), url: Href })).min(1).max(20)
+  }),
+  z.object({ type: z.literal('pdf'), url: Href, label: z.string().trim().max(100).optional() }),
+  z.object({
+    type: z.literal('menu'),
+    title: z.string().trim().max(200).optional(),
+    items: z.array(z.object({
+      name: z.string().trim().min(1).max(200),
+      description: z.string().trim().max(500).optional(),
+      price: z.string().trim().max(50).optional()
+    })).min(1).max(200)
+  })
+]);
+
+export const LandingPage = z.object({
+  title: z.string().trim().min(1, { message: 'Page title is required' }).max(200),
+  blocks: z.array(Block).max(100, { message: 'At most 100 blocks per page' })
+});
+export type LandingPage = z.infer<typeof LandingPage>;
+
+export function parseLandingPage(raw: unknown): LandingPage {
+  const data = typeof raw === 'string' ? JSON.parse(raw || '{}') : raw;
+  const parsed = LandingPage.safeParse(data);
+  if (!parsed.success) throw new Error(parsed.error.issues.map(e => e.message).join(', '));
+  return parsed.data;
+}
+
+// Off-site links, images and PDFs on the page (what destination screening has to look at);
+// relative /assets and /uploads files are served by us
+export function pageUrls(page: LandingPage): string[] {
+  const urls = page.blocks.flatMap(b => {
+    if (b.type === 'image' || b.type === 'pdf') return [b.url];
+    if (b.type === 'links') return b.links.map(l => l.url);
+    return [];
+  });
+  return Array.from(new Set(urls.filter(u => /^https?:/i.test(u))));
+}
+
+function renderBlock(b: LandingPage['blocks'][number]) {
+  switch (b.type) {
+    case 'heading':
+      return `<h${b.level}>${escapeHtml(b.text)}</h${b.level}>`;
+    case 'text':
+      return b.text.split(/\n{2,}/).map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`).join('');
+    case 'image':
+      return `<img src="${escapeHtml(b.url)}" alt="${escapeHtml(b.alt || '')}">`;
+    case 'links':
+      return b.links.map(l => `<a class="btn" href="${escapeHtml(l.url)}">${escapeHtml(l.label)}</a>`).join('');
+    case 'pdf':
+      return `<a class="btn btn--outline" href="${escapeHtml(b.url)}" download>${escapeHtml(b.label || 'Download PDF')}</a>`;
+    case 'menu':
+      return `<section class="menu">${b.title ? `<h2>${escapeHtml(b.title)}</h2>` : ''}<ul>${b.items.map(i => `
+        <li><div class="menu__row"><span>${escapeHtml(i.name)}</span>${i.price ? `<span>${escapeHtml(i.price)}</span>` : ''}</div>${
+          i.description ? `<small>${escapeHtml(i.description)}</small>` : ''}</li>`).join('')}</ul></section>`;
+  }
+}
+
+const COLOR = /^#[0-9a-fA-F]{3,8}$/;
+
+// Server-side page themed with the QR's design colors
+export function renderLandingPage(page: LandingPage, design: { fg?: string; bg?: string }) {
+  const fg = design.fg && COLOR.test(design.fg) ? design.fg : '#0b3d91';
+  const bg = design.bg && COLOR.test(design.bg) ? design.bg : '#ffffff';
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(page.title)}</title>
+  <style>
+    body{ margin:0; background:${bg}; color:#0f172a; font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial; }
+    main{ max-width:560px; margin:0 auto; padding:24px 16px 48px; }
+    h1,h2,h3{ color:${fg}; }
+    img{ max-width:100%; border-radius:12px; display:block; margin:12px 0; }
+    .btn{ display:block; text-align:center; padding:12px 16px; margin:10px 0; border-radius:10px; background:${fg}; color:${bg}; text-decoration:none; font-weight:600; }
+    .btn--outline{ background:transparent; color:${fg}; border:2px solid ${fg}; }
+    .menu ul{ list-style:none; padding:0; }
+    .menu li{ padding:10px 0; border-bottom:1px solid rgba(15,23,42,.1); }
+    .menu__row{ display:flex; justify-content:space-between; font-weight:600; }
+    .menu small{ color:#64748b; }
+  </style>
+</head>
+<body>
+  <main>
+    ${page.blocks.map(renderBlock).join('\n    ')}
+  </main>
+</body>
+</html>`;
+}
@@ -0,0 +1,78 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { checkLink, httpClient } from './linkCheck';
+import type { HttpClient, HttpResponse } from './linkCheck';
+
+// Stub client answering from a URL -> response table, recording every hop it was asked to make
+function stubClient(responses: Record<string, HttpResponse>) {
+  const calls: { url: string; address: string }[] = [];
+  const client: HttpClient = async (url, { address }) => {
+    calls.push({ url, address });
+    return responses[url] ?? { status: 404, location: null };
+  };
+  return { client, calls };
+}
+
+const publicDns = async () => ['93.184.216.34'];
+
+test('follows redirects between public hosts', async () => {
+  const { client, calls } = stubClient({
+    'https://a.example/': { status: 301, location: 'https://b.example/landing' },
+    'https://b.example/landing': { status: 200, location: null }
+  });
+  const r = await checkLink('https://a.example/', client, 1000, publicDns);
+  assert.equal(r.ok, true);
+  assert.equal(r.finalUrl, 'https://b.example/landing');
+  assert.equal(r.redirects, 1);
+  assert.deepEqual(calls.map(c => c.address), ['93.184.216.34', '93.184.216.34']);
+});
+
+test('refuses a redirect to the metadata address without requesting it', async () => {
+  const { client, calls } = stubClient({
+    'https://a.example/': { status: 302, location: 'http://169.254.169.254/latest/meta-data/' }
+  });
+  const r = await checkLink('https://a.example/', client, 1000, publicDns);
+  assert.equal(r.ok, false);
+  assert.match(r.error!, /Private and local network/);
+  assert.deepEqual(calls.map(c => c.url), ['https://a.example/']);
+});
+
+test('refuses hosts that resolve to private addresses', async () => {
+  for (const address of ['127.0.0.1', '10.1.2.3', '192.168.0.10', '::1', 'fe80::1', '::ffff:172.16.0.1']) {
+    const { client, calls } = stubClient({});
+    const r = await checkLink('http://internal.example/', client, 1000, async () => [address]);
+    assert.equal(r.ok, false, address);
+    assert.equal(calls.length, 0, address);
+  }
+});
+
+test('refuses a host when any of its addresses is private', async () => {
+  const { client, calls } = stubClient({});
+  const r = await checkLink('http://mixed.example/', client, 1000, async () => ['93.184.216.34', '10.0.0.1']);
+  assert.equal(r.ok, false);
+  assert.equal(calls.length, 0);
+});
+
+test('refuses literal private IPs and non-HTTP schemes', async () => {
+  const { client, calls } = stubClient({});
+  assert.equal((await checkLink('http://[::1]:8080/', client, 1000, publicDns)).ok, false);
+  assert.equal((await checkLink('http://127.0.0.1/', client, 1000, publicDns)).ok, false);
+  assert.equal((await checkLink('file:///etc/passwd', client, 1000, publicDns)).ok, false);
+  assert.equal(calls.length, 0);
+});
+
+test('httpClient connects to the pinned address, not to what the host name resolves to', async () => {
+  const server = http.createServer((req, res) => {
+    res.writeHead(req.headers.host?.startsWith('pinned.example') ? 204 : 500).end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const res = await httpClient(`http://pinned.example:${port}/`, { method: 'HEAD', timeoutMs: 2000, address: '127.0.0.1' });
+    assert.equal(res.status, 204);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,143 @@
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import sql from 'mssql';
+import { env } from '../config';
+import { dnsResolver, isPrivateAddress } from './screening';
+import type { Resolver } from './screening';
+
+// One HTTP hop. Redirects are not followed by the client; checkLink walks them itself so it can
+// count hops, report the final URL and screen every host on the way. The client must connect to
+// `address` (already resolved and checked), never resolve the host again. Swappable so tests can
+// point it at a local stub server.
+export type HttpResponse = { status: number; location: string | null };
+export type HttpClient = (url: string, init: { method: 'HEAD' | 'GET'; timeoutMs: number; address: string }) => Promise<HttpResponse>;
+
+export type LinkCheckResult = {
+  ok: boolean;
+  statusCode: number | null;
+  latencyMs: number;
+  finalUrl: string | null;
+  redirects: number;
+  error: string | null;
+  tlsError: string | null;
+};
+
+const MAX_REDIRECTS = 10;
+
+export const httpClient: HttpClient = (url, { method, timeoutMs, address }) => new Promise((resolve, reject) => {
+  const target = new URL(url);
+  const family = net.isIP(address);
+  const req = (target.protocol === 'https:' ? https : http).request(target, {
+    method,
+    signal: AbortSignal.timeout(timeoutMs),
+    headers: { 'User-Agent': 'QR-LinkCheck/1.0' },
+    // Pinned to the screened address, so a second DNS answer can't point the request elsewhere
+    // (TLS still verifies the certificate against the host name)
+    lookup: (_host: string, opts: { all?: boolean }, cb: (...args: any[]) => void) => {
+      if (opts.all) cb(null, [{ address, family }]);
+      else cb(null, address, family);
+    }
+  }, res => {
+    // Only the status matters; drop the body so the socket is released
+    res.resume();
+    const location = res.headers.location;
+    resolve({ status: res.statusCode ?? 0, location: typeof location === 'string' ? location : null });
+  });
+  req.on('error', reject);
+  req.end();
+});
+
+class BlockedHostError extends Error {}
+
+// The address to connect to for a hop; private, loopback and link-local destinations are refused
+async function hopAddress(url: URL, resolve: Resolver): Promise<string> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new BlockedHostError(`Unsupported protocol ${url.protocol}`);
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host) ? [host] : await resolve(host);
+  if (!addresses.length) throw new Error('Host not found');
+  if (addresses.some(isPrivateAddress)) throw new BlockedHostError('Private and local network addresses are not checked');
+  return addresses[0];
+}
+
+// Node surfaces certificate problems as a cause code on the fetch TypeError
+function tlsCode(err: any): string | null {
+  const code = String(err?.cause?.code || err?.code || '');
+  return /CERT|TLS|SSL|SELF_SIGNED|UNABLE_TO_VERIFY/i.test(code) ? code : null;
+}
+
+function describe(err: any) {
+  if (err instanceof BlockedHostError) return err.message;
+  if (err?.name === 'TimeoutError' || err?.name === 'AbortError') return 'Timed out';
+  return String(err?.cause?.code || err?.cause?.message || err?.message || 'Request failed').slice(0, 1000);
+}
+
+export async function checkLink(
+  url: string,
+  client: HttpClient = httpClient,
+  timeoutMs = env.LINK_CHECK_TIMEOUT_MS,
+  resolve: Resolver = dnsResolver
+): Promise<LinkCheckResult> {
+  const started = Date.now();
+  let current = url;
+  let redirects = 0;
+  let statusCode: number | null = null;
+
+  try {
+    for (;;) {
+      // Every hop is screened: a public URL may redirect to an internal one
+      const address = await hopAddress(new URL(current), resolve);
+      let res = await client(current, { method: 'HEAD', timeoutMs, address });
+      // Plenty of servers reject HEAD; retry those with GET before calling the link broken
+      if (res.status === 405 || res.status === 501 || res.status === 403) {
+        res = await client(current, { method: 'GET', timeoutMs, address });
+      }
+      statusCode = res.status;
+
+      if (res.status >= 300 && res.status < 400 && res.location) {
+        if (redirects >= MAX_REDIRECTS) {
+          return { ok: false, statusCode, latencyMs: Date.now() - started, finalUrl: current, redirects, error: 'Too many redirects', tlsError: null };
+        }
+        current = new URL(res.location, current).toString();
+        redirects++;
+        continue;
+      }
+
+      const ok = res.status < 400;
+      return { ok, statusCode, latencyMs: Date.now() - started, finalUrl: current, redirects, error: ok ? null : `HTTP ${res.status}`, tlsError: null };
+    }
+  } catch (err: any) {
+    return {
+      ok: false,
+      statusCode,
+      latencyMs: Date.now() - started,
+      finalUrl: current,
+      redirects,
+      error: describe(err),
+      tlsError: tlsCode(err)
+    };
+  }
+}
+
+export type LinkTarget = { QR_Code_Id: string; Target_Id: string; Url: string };
+
+// Runs the check and appends it to the code's history
+export async function recordLinkCheck(conn: sql.ConnectionPool, target: LinkTarget, client: HttpClient = httpClient) {
+  const result = await checkLink(target.Url, client);
+  await conn.request()
+    .input('qid', sql.UniqueIdentifier, target.QR_Code_Id)
+    .input('tid', sql.UniqueIdentifier, target.Target_Id)
+    .input('url', sql.NVarChar(2048), target.Url)
+    .input('ok', sql.Bit, result.ok ? 1 : 0)
+    .input('status', sql.Int, result.statusCode)
+    .input('latency', sql.Int, result.latencyMs)
+    .input('final', sql.NVarChar(2048), result.finalUrl ? result.finalUrl.slice(0, 2048) : null)
+    .input('redirects', sql.Int, result.redirects)
+    .input('error', sql.NVarChar(1000), result.error)
+    .input('tls', sql.NVarChar(200), result.tlsError ? result.tlsError.slice(0, 200) : null)
+    .query(`
+      INSERT INTO dbo.[QR_Link_Check] (QR_Code_Id, Target_Id, Url, Ok, StatusCode, LatencyMs, FinalUrl, Redirects, Error, TlsError)
+      VALUES (@qid, @tid, @url, @ok, @status, @latency, @final, @redirects, @error, @tls);
+    `);
+  return result;
+}
@@ -0,0 +1,108 @@
+import { flagMessage } from './screening';
+
+// Minimal server-rendered pages shown by /r/:slug instead of redirecting
+
+export function escapeHtml(s: string) {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function renderPage(title: string, body: string) {
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(title)} • Dynamic QR Code</title>
+  <link rel="icon" type="image/png" href="/logo.png">
+  <link rel="stylesheet" href="/css/style.css" />
+</head>
+<body>
+  <main class="container">
+    ${body}
+  </main>
+</body>
+</html>`;
+}
+
+// search is the scan's original query string ("?a=1"), kept so forwarded params survive the form
+export function renderPasswordPage(slug: string, error?: string, search = '') {
+  return renderPage('Password required', `<form class="card" action="/r/${encodeURIComponent(slug)}${escapeHtml(search)}" method="post">
+      <h1>Password required</h1>
+      <p class="sub">Enter the password to open this link</p>
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ''}
+      <div class="row">
+        <input class="input" type="password" name="password" placeholder="Password" required autofocus />
+      </div>
+      <button class="btn" type="submit">Continue</button>
+    </form>`);
+}
+
+export function renderMessagePage(title: string, message: string) {
+  return renderPage(title, `<div class="card">
+      <h1>${escapeHtml(title)}</h1>
+      <p class="sub">${escapeHtml(message)}</p>
+    </div>`);
+}
+
+// Interstitial for a destination that screening flagged. Known threats get no way through;
+// the other reasons (shorteners, list policy) let the visitor continue at their own risk.
+export function renderWarningPage(url: string, reason: string) {
+  const proceed = reason !== 'threat'
+    ? `<a class="btn" href="${escapeHtml(url)}" rel="noopener noreferrer nofollow" style="display:block; text-align:center; text-decoration:none; margin-top:12px;">Continue anyway</a>`
+    : '';
+  return renderPage('Warning', `<div class="card">
+      <h1>This link may not be safe</h1>
+      <p class="sub">${escapeHtml(flagMessage(reason))}.</p>
+      <p class="sub"><strong>Destination:</strong> ${escapeHtml(url)}</p>
+      ${proceed}
+    </div>`);
+}
+
+// Landing page for dynamic payloads that have no file to download
+export function renderPayloadPage(type: 'wifi' | 'email' | 'sms' | 'geo', data: any) {
+  const row = (label: string, value: string) =>
+    `<p class="sub"><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</p>`;
+  const button = (href: string, text: string) =>
+    `<a class="btn" href="${escapeHtml(href)}" style="display:block; text-align:center; text-decoration:none; margin-top:12px;">${escapeHtml(text)}</a>`;
+
+  switch (type) {
+    case 'wifi':
+      return renderPage('Wi-Fi', `<div class="card">
+      <h1>Join Wi-Fi</h1>
+      ${row('Network', data.ssid)}
+      ${data.encryption !== 'nopass' ? row('Password', data.password || '') : row('Security', 'Open network')}
+    </div>`);
+    case 'email': {
+      const qs = new URLSearchParams();
+      if (data.subject) qs.set('subject', data.subject);
+      if (data.body) qs.set('body', data.body);
+      const q = qs.toString().replace(/\+/g, '%20');
+      return renderPage('Email', `<div class="card">
+      <h1>Send an email</h1>
+      ${row('To', data.to)}
+      ${data.subject ? row('Subject', data.subject) : ''}
+      ${button(`mailto:${data.to}${q ? `?${q}` : ''}`, 'Write email')}
+    </div>`);
+    }
+    case 'sms': {
+      const phone = data.phone.replace(/[ ()\-]/g, '');
+      return renderPage('SMS', `<div class="card">
+      <h1>Send a text</h1>
+      ${row('To', data.phone)}
+      ${data.message ? row('Message', data.message) : ''}
+      ${button(`sms:${phone}${data.message ? `?body=${encodeURIComponent(data.message)}` : ''}`, 'Send SMS')}
+    </div>`);
+    }
+    case 'geo':
+      return renderPage('Location', `<div class="card">
+      <h1>${escapeHtml(data.label || 'Location')}</h1>
+      ${row('Coordinates', `${data.lat}, ${data.lon}`)}
+      ${button(`https://maps.google.com/?q=${data.lat},${data.lon}`, 'Open in Maps')}
+    </div>`);
+  }
+}
@@ -0,0 +1,60 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { encodePayload, parsePayload } from './payloads';
+
+test('vCard escapes backslashes, separators and newlines in values', () => {
+  const card = encodePayload('vcard', parsePayload('vcard', {
+    firstName: 'Ann;Marie',
+    lastName: 'O\\Neil',
+    org: 'Acme, Inc.',
+    note: 'Line one\nTime: 9:00'
+  }));
+  const lines = card.split('\r\n');
+  assert.ok(lines.includes('N:O\\\\Neil;Ann\\;Marie;;;'));
+  assert.ok(lines.includes('FN:Ann\\;Marie O\\\\Neil'));
+  assert.ok(lines.includes('ORG:Acme\\, Inc.'));
+  // Colons need no escaping inside a vCard value
+  assert.ok(lines.includes('NOTE:Line one\\nTime: 9:00'));
+  assert.ok(card.endsWith('END:VCARD\r\n'));
+});
+
+test('MECARD escapes ; , : " and backslash', () => {
+  const card = encodePayload('mecard', parsePayload('mecard', {
+    firstName: 'Jo',
+    lastName: 'Smith, Jr.',
+    url: 'https://example.com/a;b',
+    note: 'say "hi" \\o/'
+  }));
+  assert.equal(card, 'MECARD:N:Smith\\, Jr.,Jo;URL:https\\://example.com/a\\;b;NOTE:say \\"hi\\" \\\\o/;;');
+});
+
+test('Wi-Fi escapes the network name and password', () => {
+  const wifi = encodePayload('wifi', parsePayload('wifi', { ssid: 'Cafe;Guest:5G', password: 'p\\a,ss"', encryption: 'WPA', hidden: true }));
+  assert.equal(wifi, 'WIFI:T:WPA;S:Cafe\\;Guest\\:5G;P:p\\\\a\\,ss\\";H:true;;');
+});
+
+test('open Wi-Fi leaves the password out', () => {
+  assert.equal(encodePayload('wifi', parsePayload('wifi', { ssid: 'Lobby', encryption: 'nopass' })), 'WIFI:T:nopass;S:Lobby;;');
+});
+
+test('event text is escaped and long lines are folded', () => {
+  const ics = encodePayload('event', parsePayload('event', {
+    title: 'Launch; party, 2026',
+    start: '2026-10-19T09:00:00Z',
+    description: 'a\\b ' + 'x'.repeat(100)
+  }), 'uid-1');
+  const lines = ics.split('\r\n');
+  assert.ok(lines.includes('SUMMARY:Launch\\; party\\, 2026'));
+  assert.ok(lines.includes('DTSTART:20261019T090000Z'));
+  assert.ok(lines.includes('DTEND:20261019T100000Z'));
+  assert.ok(lines.every(l => Buffer.byteLength(l) <= 75));
+  assert.ok(ics.replace(/\r\n /g, '').includes(`DESCRIPTION:a\\\\b ${'x'.repeat(100)}`));
+});
+
+test('email and sms encode their fields for the URI', () => {
+  assert.equal(
+    encodePayload('email', parsePayload('email', { to: 'a@example.com', subject: 'Hi & bye', body: 'x y' })),
+    'mailto:a@example.com?subject=Hi%20%26%20bye&body=x%20y'
+  );
+  assert.equal(encodePayload('sms', parsePayload('sms', { phone: '+1 (555) 010-0000', message: 'See: you' })), 'SMSTO:+15550100000:See: you');
+});
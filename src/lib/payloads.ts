@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { shortLink } from './url';
+
+export const PAYLOAD_TYPES = ['vcard', 'mecard', 'wifi', 'email', 'sms', 'geo', 'event'] as const;
+export type PayloadType = typeof PAYLOAD_TYPES[number];
+
+const optionalText = (max: number) => z.string().trim().max(max).optional();
+
+const Contact = z.object({
+  firstName: optionalText(100),
+  lastName: optionalText(100),
+  org: optionalText(200),
+  title: optionalText(200),
+  phone: z.string().trim().regex(/^\+?[0-9 ()\-]{3,25}$/, { message: 'Enter a valid phone number' }).optional(),
+  email: z.string().trim().email({ message: 'Enter a valid email' }).optional(),
+  url: z.string().trim().url({ message: 'Enter a valid website URL' }).optional(),
+  address: z.object({
+    street: optionalText(200),
+    city: optionalText(100),
+    region: optionalText(100),
+    postcode: optionalText(20),
+    country: optionalText(100)
+  }).optional(),
+  note: optionalText(500)
+}).refine(c => c.firstName || c.lastName || c.org, { message: 'Contact needs a name or organisation' });
+
+const schemas = {
+  vcard: Contact,
+  mecard: Contact,
+  wifi: z.object({
+    ssid: z.string().min(1, { message: 'Network name is required' }).max(32),
+    password: z.string().max(63).optional(),
+    encryption: z.enum(['WPA', 'WEP', 'nopass']).default('WPA'),
+    hidden: z.boolean().optional()
+  }).refine(w => w.encryption === 'nopass' || !!w.password, { message: 'Password is required for secured networks' }),
+  email: z.object({
+    to: z.string().trim().email({ message: 'Enter a valid email' }),
+    subject: optionalText(200),
+    body: optionalText(2000)
+  }),
+  sms: z.object({
+    phone: z.string().trim().regex(/^\+?[0-9 ()\-]{3,25}$/, { message: 'Enter a valid phone number' }),
+    message: optionalText(500)
+  }),
+  geo: z.object({
+    lat: z.coerce.number().min(-90).max(90),
+    lon: z.coerce.number().min(-180).max(180),
+    label: optionalText(200)
+  }),
+  event: z.object({
+    title: z.string().trim().min(1, { message: 'Event title is required' }).max(200),
+    start: z.coerce.date({ message: 'Enter a valid start time' }),
+    end: z.coerce.date({ message: 'Enter a valid end time' }).optional(),
+    location: optionalText(300),
+    description: optionalText(2000),
+    url: z.string().trim().url({ message: 'Enter a valid event URL' }).optional()
+  }).refine(e => !e.end || e.end > e.start, { message: 'End time must be after start time' })
+};
+
+export function isPayloadType(t: string): t is PayloadType {
+  return (PAYLOAD_TYPES as readonly string[]).includes(t);
+}
+
+// Throws with the zod messages joined, like the other form validators
+export function parsePayload(type: PayloadType, raw: unknown): any {
+  const data = typeof raw === 'string' ? JSON.parse(raw || '{}') : raw;
+  const parsed = schemas[type].safeParse(data);
+  if (!parsed.success) throw new Error(parsed.error.issues.map(e => e.message).join(', '));
+  return parsed.data;
+}
+
+// ---------- encoders ----------
+const escVcard = (s = '') => s.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+const escMe = (s = '') => s.replace(/([\\;,:"])/g, '\\$1');
+
+function vcard(c: any) {
+  const a = c.address || {};
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `N:${escVcard(c.lastName)};${escVcard(c.firstName)};;;`,
+    `FN:${escVcard([c.firstName, c.lastName].filter(Boolean).join(' ') || c.org)}`
+  ];
+  if (c.org) lines.push(`ORG:${escVcard(c.org)}`);
+  if (c.title) lines.push(`TITLE:${escVcard(c.title)}`);
+  if (c.phone) lines.push(`TEL;TYPE=CELL:${escVcard(c.phone)}`);
+  if (c.email) lines.push(`EMAIL:${escVcard(c.email)}`);
+  if (c.url) lines.push(`URL:${escVcard(c.url)}`);
+  if (c.address) lines.push(`ADR;TYPE=WORK:;;${[a.street, a.city, a.region, a.postcode, a.country].map(escVcard).join(';')}`);
+  if (c.note) lines.push(`NOTE:${escVcard(c.note)}`);
+  lines.push('END:VCARD');
+  return lines.join('\r\n') + '\r\n';
+}
+
+function mecard(c: any) {
+  const a = c.address || {};
+  let out = `MECARD:N:${escMe(c.lastName)},${escMe(c.firstName || c.org)};`;
+  if (c.org) out += `ORG:${escMe(c.org)};`;
+  if (c.phone) out += `TEL:${escMe(c.phone)};`;
+  if (c.email) out += `EMAIL:${escMe(c.email)};`;
+  if (c.url) out += `URL:${escMe(c.url)};`;
+  if (c.address) out += `ADR:${escMe([a.street, a.city, a.region, a.postcode, a.country].filter(Boolean).join(', '))};`;
+  if (c.note) out += `NOTE:${escMe(c.note)};`;
+  return out + ';';
+}
+
+// iCalendar wants UTC stamps like 20261019T090000Z and lines folded at 75 octets
+const icsDate = (d: Date) => d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const escIcs = (s = '') => s.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+function fold(line: string) {
+  const out: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest, 'utf8') > 75) {
+    let cut = 75;
+    while (Buffer.byteLength(rest.slice(0, cut), 'utf8') > 75) cut--;
+    out.push(rest.slice(0, cut));
+    rest = ' ' + rest.slice(cut);
+  }
+  out.push(rest);
+  return out.join('\r\n');
+}
+
+function ics(e: any, uid: string) {
+  const end = e.end || new Date(e.start.getTime() + 3600 * 1000);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Dynamic QR Code//EN',
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${icsDate(new Date())}`,
+    `DTSTART:${icsDate(e.start)}`,
+    `DTEND:${icsDate(end)}`,
+    `SUMMARY:${escIcs(e.title)}`
+  ];
+  if (e.location) lines.push(`LOCATION:${escIcs(e.location)}`);
+  if (e.description) lines.push(`DESCRIPTION:${escIcs(e.description)}`);
+  if (e.url) lines.push(`URL:${e.url}`);
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+// The string placed in the symbol for static codes (and the action link on landing pages)
+export function encodePayload(type: PayloadType, data: any, uid = 'qr'): string {
+  switch (type) {
+    case 'vcard': return vcard(data);
+    case 'mecard': return mecard(data);
+    case 'wifi':
+      return `WIFI:T:${data.encryption || 'WPA'};S:${escMe(data.ssid)};${data.encryption === 'nopass' ? '' : `P:${escMe(data.password)};`}${data.hidden ? 'H:true;' : ''};`;
+    case 'email': {
+      const qs = new URLSearchParams();
+      if (data.subject) qs.set('subject', data.subject);
+      if (data.body) qs.set('body', data.body);
+      const q = qs.toString().replace(/\+/g, '%20');
+      return `mailto:${data.to}${q ? `?${q}` : ''}`;
+    }
+    case 'sms': return `SMSTO:${data.phone.replace(/[ ()\-]/g, '')}:${data.message || ''}`;
+    case 'geo': return `geo:${data.lat},${data.lon}${data.label ? `?q=${encodeURIComponent(data.label)}` : ''}`;
+    case 'event': return ics(data, uid);
+  }
+}
+
+// What the symbol should contain: the payload itself for static codes, the short link otherwise
+export function qrContent(slug: string, row: { Static?: boolean; PayloadType?: string | null; Payload?: string | null; DomainHost?: string | null }) {
+  if (row.Static && row.PayloadType && isPayloadType(row.PayloadType) && row.Payload) {
+    // Re-parsing revives the event dates stored as JSON strings
+    return encodePayload(row.PayloadType, parsePayload(row.PayloadType, row.Payload), slug);
+  }
+  return shortLink(slug, row.DomainHost);
+}
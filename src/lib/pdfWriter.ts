@@ -0,0 +1,86 @@
+import zlib from 'node:zlib';
+
+// Small PDF 1.4 writer shared by single-code renders and label sheets. Objects are appended as
+// they're produced; resource names carry their object number so drawing code from several codes
+// can share a page, and each page only lists the resources its content uses.
+
+type Resources = { XObject: Record<string, number>; Font: Record<string, number>; Pattern: Record<string, number> };
+
+export type PdfWriter = ReturnType<typeof createPdfWriter>;
+
+export function createPdfWriter() {
+  const objects: Buffer[] = [Buffer.alloc(0), Buffer.alloc(0)]; // catalog, pages (written by finish)
+  const pages: number[] = [];
+  const fonts = new Map<string, number>();
+  const memo = new Map<string, Promise<number | null>>();
+  let used: Resources = { XObject: {}, Font: {}, Pattern: {} };
+
+  const add = (body: Buffer | string) => {
+    objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+    return objects.length;
+  };
+  const stream = (dict: string, data: Buffer) =>
+    Buffer.concat([Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`, 'latin1'), data, Buffer.from('\nendstream', 'latin1')]);
+
+  return {
+    add,
+    stream,
+
+    // Adds the object once per key (e.g. a logo repeated on every label)
+    once(key: string, make: () => Promise<number | null>) {
+      if (!memo.has(key)) memo.set(key, make());
+      return memo.get(key)!;
+    },
+
+    // Operand names for the current page
+    xobject(ref: number) {
+      used.XObject[`Im${ref}`] = ref;
+      return `/Im${ref}`;
+    },
+    pattern(ref: number) {
+      used.Pattern[`P${ref}`] = ref;
+      return `/P${ref}`;
+    },
+    // Standard Type1 font in WinAnsi encoding
+    font(baseFont: string) {
+      let ref = fonts.get(baseFont);
+      if (!ref) {
+        ref = add(`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`);
+        fonts.set(baseFont, ref);
+      }
+      used.Font[`F${ref}`] = ref;
+      return `/F${ref}`;
+    },
+
+    // Closes a page of width x height points drawn by ops; trimBox marks the finished size inside a bleed
+    page(width: number, height: number, ops: string[], trimBox?: [number, number, number, number]) {
+      const resources = (Object.keys(used) as (keyof Resources)[])
+        .filter(kind => Object.keys(used[kind]).length)
+        .map(kind => `/${kind} << ${Object.entries(used[kind]).map(([name, ref]) => `/${name} ${ref} 0 R`).join(' ')} >>`)
+        .join(' ');
+      used = { XObject: {}, Font: {}, Pattern: {} };
+      const content = add(stream('/Filter /FlateDecode', zlib.deflateSync(Buffer.from(ops.join('\n'), 'latin1'))));
+      const box = (b: number[]) => `[${b.map(v => Number(v.toFixed(3))).join(' ')}]`;
+      pages.push(add(`<< /Type /Page /Parent 2 0 R /MediaBox ${box([0, 0, width, height])}` +
+        `${trimBox ? ` /TrimBox ${box(trimBox)}` : ''} /Resources << ${resources} >> /Contents ${content} 0 R >>`));
+    },
+
+    finish(): Buffer {
+      objects[0] = Buffer.from('<< /Type /Catalog /Pages 2 0 R >>', 'latin1');
+      objects[1] = Buffer.from(`<< /Type /Pages /Kids [${pages.map(p => `${p} 0 R`).join(' ')}] /Count ${pages.length} >>`, 'latin1');
+
+      const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+      const offsets: number[] = [];
+      let pos = chunks[0].length;
+      objects.forEach((body, i) => {
+        offsets.push(pos);
+        const obj = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+        chunks.push(obj);
+        pos += obj.length;
+      });
+      const xref = [`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`, ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`)].join('');
+      chunks.push(Buffer.from(`${xref}trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${pos}\n%%EOF\n`, 'latin1'));
+      return Buffer.concat(chunks);
+    }
+  };
+}
@@ -0,0 +1,51 @@
+export type AccessPolicy = {
+  ExpiresAt: Date | null;
+  MaxScans: number | null;
+  ActiveStart: string | null;
+  ActiveEnd: string | null;
+  Timezone: string | null;
+};
+
+export type PolicyBlock = 'expired' | 'exhausted' | 'inactive';
+
+export function isValidTimezone(tz: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toMinutes(hhmm: string) {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+// Minutes since local midnight in the given IANA timezone
+function localMinutes(now: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(now);
+  const h = Number(parts.find(p => p.type === 'hour')?.value || 0);
+  const m = Number(parts.find(p => p.type === 'minute')?.value || 0);
+  return h * 60 + m;
+}
+
+export function withinActiveHours(start: string, end: string, now: Date, timeZone = 'UTC') {
+  const s = toMinutes(start);
+  const e = toMinutes(end);
+  const cur = localMinutes(now, timeZone);
+  if (s === e) return true;
+  // A window like 22:00-02:00 wraps past midnight
+  return s < e ? cur >= s && cur < e : cur >= s || cur < e;
+}
+
+// scanCount is only consulted when MaxScans is set
+export function checkPolicy(p: AccessPolicy, scanCount: number, now = new Date()): PolicyBlock | null {
+  if (p.ExpiresAt && p.ExpiresAt <= now) return 'expired';
+  if (p.MaxScans !== null && p.MaxScans !== undefined && scanCount >= p.MaxScans) return 'exhausted';
+  if (p.ActiveStart && p.ActiveEnd && !withinActiveHours(p.ActiveStart, p.ActiveEnd, now, p.Timezone || 'UTC')) {
+    return 'inactive';
+  }
+  return null;
+}
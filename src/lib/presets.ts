@@ -0,0 +1,32 @@
+import sql from 'mssql';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(v: string) {
+  return UUID.test(v);
+}
+
+// Joined into render queries: a linked preset's current design wins over the stored snapshot
+export const EFFECTIVE_DESIGN = 'COALESCE(dp.Design, q.Design)';
+export const PRESET_JOIN = 'LEFT JOIN dbo.[QR_Design_Preset] dp ON dp.Id = q.Preset_Id';
+
+// Picks the preset a new code links to: an explicit id, 'none' for a one-off design,
+// or the user's default preset when nothing was chosen. Returns null for no preset.
+export async function resolvePreset(conn: sql.ConnectionPool | sql.Transaction, userId: string, requested?: string) {
+  const choice = String(requested || '').trim();
+  if (choice.toLowerCase() === 'none') return null;
+  if (choice && !isUuid(choice)) throw new Error('Design preset not found');
+
+  const r = await conn.request()
+    .input('uid', sql.UniqueIdentifier, userId)
+    .input('pid', sql.UniqueIdentifier, choice || null)
+    .query(`
+      SELECT TOP 1 Id, Design FROM dbo.[QR_Design_Preset]
+      WHERE User_Id = @uid AND ((@pid IS NOT NULL AND Id = @pid) OR (@pid IS NULL AND IsDefault = 1))
+    `);
+  if (!r.recordset.length) {
+    if (choice) throw new Error('Design preset not found');
+    return null;
+  }
+  return { id: r.recordset[0].Id as string, design: JSON.parse(r.recordset[0].Design) };
+}
@@ -0,0 +1,195 @@
+import sql from 'mssql';
+import { normalizeUrl } from './url';
+import { utmJson } from './targets';
+import type { PayloadType } from './payloads';
+import { PAGE_TYPE } from './landingPages';
+import { setCodeTags } from './tags';
+import { sameDomain } from './domains';
+import { LOGO_URL_MESSAGE, isAllowedLogoUrl, parseDesignStyle } from './qrImage';
+import { parseFrame } from './qrFrame';
+
+export function generateSlug() {
+  return Math.random().toString(36).substring(2, 9);
+}
+
+// Custom slug rules shared by /qr/create and bulk import
+export function validateSlug(slug: string) {
+  if (!/^[a-zA-Z0-9\-]+$/.test(slug)) {
+    throw new Error('Slug can only contain letters, numbers, and hyphens');
+  }
+  if (slug.length < 3) {
+    throw new Error('Slug must be at least 3 characters long');
+  }
+  if (slug.length > 50) {
+    throw new Error('Slug must be less than 50 characters');
+  }
+  if (slug.startsWith('-') || slug.endsWith('-')) {
+    throw new Error('Slug cannot start or end with a hyphen');
+  }
+}
+
+// Slugs are unique per domain (aliases left behind by renames stay reserved too) and per owner,
+// so the owner API can keep addressing codes by slug alone. exceptId skips the code being edited.
+export type SlugScope = { domainId?: string | null; userId?: string | null; exceptId?: string | null };
+
+export async function slugTaken(conn: sql.ConnectionPool | sql.Transaction, slug: string, scope: SlugScope = {}) {
+  const slugCheck = await conn.request()
+    .input('checkSlug', sql.NVarChar(64), slug)
+    .input('did', sql.UniqueIdentifier, scope.domainId || null)
+    .input('uid', sql.UniqueIdentifier, scope.userId || null)
+    .input('except', sql.UniqueIdentifier, scope.exceptId || null)
+    .query(`
+      SELECT Id FROM dbo.[QR_Code]
+      WHERE Slug=@checkSlug AND (${sameDomain('Domain_Id')} OR User_Id=@uid) AND (@except IS NULL OR Id<>@except)
+      UNION ALL
+      SELECT QR_Code_Id FROM dbo.[QR_Slug_Alias]
+      WHERE Slug=@checkSlug AND ${sameDomain('Domain_Id')} AND (@except IS NULL OR QR_Code_Id<>@except)
+    `);
+  return slugCheck.recordset.length > 0;
+}
+
+// capture design from form selections (fallbacks match UI defaults)
+export function designFromInput(body: any) {
+  const fg = String(body.fg || '#000089');
+  const bg = String(body.bg || '#ffffff');
+  const ec = String(body.ec || 'M').toUpperCase();
+  const format = String(body.format || 'svg').toLowerCase();
+  const rawLogoUrl = String(body.logoUrl || '').trim();
+  const logoUrl = rawLogoUrl.length ? rawLogoUrl : null;
+  if (logoUrl && !isAllowedLogoUrl(logoUrl)) throw new Error(LOGO_URL_MESSAGE);
+  const logoSizePct = Math.max(10, Math.min(40, Number(body.logoSizePct || 22)));
+
+  return { fg, bg, ec, format, logoUrl, logoSizePct, ...parseDesignStyle(body), ...parseFrame(body) };
+}
+
+export type NewQrCode = {
+  userId: string;
+  name: string;
+  slug: string;
+  url: string | null;
+  payloadType?: PayloadType | typeof PAGE_TYPE | null;
+  payload?: object | null;
+  isStatic?: boolean;
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+  utm_override?: boolean | string;
+  forwardParams?: string[] | null;
+  design: object;
+  presetId?: string | null;
+  domainId?: string | null;
+  tagIds?: string[];
+};
+
+// Inserts the QR_Code row plus its first QR_Target version and points CurrentTargetId at it.
+// Typed payloads and hosted pages replace the URL; the caller has already validated them.
+export async function insertQrCode(conn: sql.ConnectionPool | sql.Transaction, qr: NewQrCode) {
+  const url = qr.payloadType ? null : normalizeUrl(qr.url || '');
+
+  const qrIns = await conn.request()
+    .input('uid', sql.UniqueIdentifier, qr.userId)
+    .input('name', sql.NVarChar(200), qr.name)
+    .input('slug', sql.NVarChar(64), qr.slug)
+    .input('design', sql.NVarChar(sql.MAX), JSON.stringify(qr.design))
+    .input('static', sql.Bit, qr.payloadType && qr.payloadType !== PAGE_TYPE && qr.isStatic ? 1 : 0)
+    .input('preset', sql.UniqueIdentifier, qr.presetId || null)
+    .input('domain', sql.UniqueIdentifier, qr.domainId || null)
+    .input('forward', sql.NVarChar(sql.MAX), qr.forwardParams?.length ? JSON.stringify(qr.forwardParams) : null)
+    .query(`
+      INSERT INTO dbo.[QR_Code] (User_Id, Name, Slug, Design, Static, Preset_Id, Domain_Id, ForwardParams)
+      OUTPUT inserted.Id
+      VALUES (@uid, @name, @slug, @design, @static, @preset, @domain, @forward);
+    `);
+
+  const qrId = qrIns.recordset[0].Id as string;
+
+  // create first target with UTM parameters
+  const trgIns = await conn.request()
+    .input('qid', sql.UniqueIdentifier, qrId)
+    .input('url', sql.NVarChar(2048), url)
+    .input('ver', sql.Int, 1)
+    .input('utm', sql.NVarChar(sql.MAX), utmJson(qr))
+    .input('ptype', sql.NVarChar(20), qr.payloadType || null)
+    .input('payload', sql.NVarChar(sql.MAX), qr.payloadType ? JSON.stringify(qr.payload) : null)
+    .query(`
+      INSERT INTO dbo.[QR_Target] (QR_Code_Id, Url, [Version], UTM, PayloadType, Payload)
+      OUTPUT inserted.Id
+      VALUES (@qid, @url, @ver, @utm, @ptype, @payload);
+    `);
+
+  const targetId = trgIns.recordset[0].Id as string;
+
+  await conn.request()
+    .input('tid', sql.UniqueIdentifier, targetId)
+    .input('qid', sql.UniqueIdentifier, qrId)
+    .query('UPDATE dbo.[QR_Code] SET CurrentTargetId=@tid WHERE Id=@qid;');
+
+  if (qr.tagIds?.length) await setCodeTags(conn, qr.userId, qrId, qr.tagIds);
+
+  return qrId;
+}
+
+// Copies a code into a new one with its own slug: design/preset link, tags, forwarded params, access policy, and the
+// current target plus every target its routing rules, split variants and pending schedules point at.
+// Target versions are renumbered from 1 (the current one); scans, aliases and history stay behind.
+export async function cloneQrCode(tx: sql.Transaction, sourceId: string, name: string, slug: string) {
+  const r = await tx.request()
+    .input('src', sql.UniqueIdentifier, sourceId)
+    .input('name', sql.NVarChar(200), name)
+    .input('slug', sql.NVarChar(64), slug)
+    .query(`
+      DECLARE @new TABLE (Id UNIQUEIDENTIFIER);
+      INSERT INTO dbo.[QR_Code] (User_Id, Name, Slug, Design, Static, Preset_Id, ForwardParams, Domain_Id)
+      OUTPUT inserted.Id INTO @new
+      SELECT User_Id, @name, @slug, Design, Static, Preset_Id, ForwardParams, Domain_Id FROM dbo.[QR_Code] WHERE Id = @src;
+      DECLARE @id UNIQUEIDENTIFIER = (SELECT Id FROM @new);
+      DECLARE @cur UNIQUEIDENTIFIER = (SELECT CurrentTargetId FROM dbo.[QR_Code] WHERE Id = @src);
+
+      DECLARE @map TABLE (OldId UNIQUEIDENTIFIER PRIMARY KEY, NewId UNIQUEIDENTIFIER NOT NULL);
+      INSERT INTO @map (OldId, NewId)
+      SELECT Id, NEWID() FROM dbo.[QR_Target]
+      WHERE QR_Code_Id = @src AND (
+        Id = @cur
+        OR Id IN (SELECT Target_Id FROM dbo.[QR_Route_Rule] WHERE QR_Code_Id = @src AND DeletedAt IS NULL)
+        OR Id IN (SELECT Target_Id FROM dbo.[QR_Split_Variant] WHERE QR_Code_Id = @src AND DeletedAt IS NULL)
+        OR Id IN (SELECT Target_Id FROM dbo.[QR_Target_Schedule]
+                  WHERE QR_Code_Id = @src AND CanceledAt IS NULL AND (EndsAt IS NULL OR EndsAt > SYSUTCDATETIME()))
+      );
+
+      INSERT INTO dbo.[QR_Target] (Id, QR_Code_Id, Url, [Version], UTM, PayloadType, Payload, FlagReason, FlagDetail, ScreenedAt)
+      SELECT m.NewId, @id, t.Url,
+        ROW_NUMBER() OVER (ORDER BY CASE WHEN t.Id = @cur THEN 0 ELSE 1 END, t.[Version]),
+        t.UTM, t.PayloadType, t.Payload, t.FlagReason, t.FlagDetail, t.ScreenedAt
+      FROM @map m JOIN dbo.[QR_Target] t ON t.Id = m.OldId;
+
+      UPDATE dbo.[QR_Code] SET CurrentTargetId = (SELECT NewId FROM @map WHERE OldId = @cur) WHERE Id = @id;
+
+      INSERT INTO dbo.[QR_Route_Rule] (QR_Code_Id, Target_Id, Position, Name, Conditions)
+      SELECT @id, m.NewId, r.Position, r.Name, r.Conditions
+      FROM dbo.[QR_Route_Rule] r JOIN @map m ON m.OldId = r.Target_Id
+      WHERE r.QR_Code_Id = @src AND r.DeletedAt IS NULL;
+
+      INSERT INTO dbo.[QR_Split_Variant] (QR_Code_Id, Target_Id, Position, Name, Weight)
+      SELECT @id, m.NewId, v.Position, v.Name, v.Weight
+      FROM dbo.[QR_Split_Variant] v JOIN @map m ON m.OldId = v.Target_Id
+      WHERE v.QR_Code_Id = @src AND v.DeletedAt IS NULL;
+
+      INSERT INTO dbo.[QR_Target_Schedule] (QR_Code_Id, Target_Id, StartsAt, EndsAt)
+      SELECT @id, m.NewId, s.StartsAt, s.EndsAt
+      FROM dbo.[QR_Target_Schedule] s JOIN @map m ON m.OldId = s.Target_Id
+      WHERE s.QR_Code_Id = @src AND s.CanceledAt IS NULL AND (s.EndsAt IS NULL OR s.EndsAt > SYSUTCDATETIME());
+
+      INSERT INTO dbo.[QR_Policy] (QR_Code_Id, ExpiresAt, MaxScans, ActiveStart, ActiveEnd, Timezone,
+                                   Password_Hash, FallbackUrl, FallbackMessage)
+      SELECT @id, ExpiresAt, MaxScans, ActiveStart, ActiveEnd, Timezone, Password_Hash, FallbackUrl, FallbackMessage
+      FROM dbo.[QR_Policy] WHERE QR_Code_Id = @src;
+
+      INSERT INTO dbo.[QR_Code_Tag] (QR_Code_Id, Tag_Id)
+      SELECT @id, Tag_Id FROM dbo.[QR_Code_Tag] WHERE QR_Code_Id = @src;
+
+      SELECT @id AS Id;
+    `);
+  return r.recordset[0].Id as string;
+}
@@ -0,0 +1,165 @@
+import { Seg, polygon, radii, rect } from './vectorPath';
+
+// Frames with a call-to-action caption around the code. Geometry is in module units like the
+// code itself, so every output format draws the same frame.
+
+export const FRAME_STYLES = ['none', 'box', 'bubble', 'ribbon'] as const;
+export const FRAME_FONTS = ['sans', 'serif', 'mono'] as const;
+export const FRAME_POSITIONS = ['bottom', 'top'] as const;
+export type FrameStyle = typeof FRAME_STYLES[number];
+export type FrameFont = typeof FRAME_FONTS[number];
+export type FramePosition = typeof FRAME_POSITIONS[number];
+
+export const MAX_FRAME_TEXT = 40;
+const HEX = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// frameColor defaults to the design's foreground color
+export type FrameSettings = {
+  frame: FrameStyle;
+  frameText: string;
+  frameFont: FrameFont;
+  framePosition: FramePosition;
+  frameColor: string | null;
+  frameTextColor: string;
+};
+
+function oneOf<T extends string>(list: readonly T[], value: unknown): T {
+  const v = String(value ?? '').toLowerCase();
+  return (list as readonly string[]).includes(v) ? v as T : list[0];
+}
+
+// Frame fields of a design or form body
+export function parseFrame(d: any): FrameSettings {
+  const text = d?.frameText === undefined || d?.frameText === null ? 'SCAN ME' : String(d.frameText);
+  return {
+    frame: oneOf(FRAME_STYLES, d?.frame),
+    frameText: text.replace(/\s+/g, ' ').trim().slice(0, MAX_FRAME_TEXT),
+    frameFont: oneOf(FRAME_FONTS, d?.frameFont),
+    framePosition: oneOf(FRAME_POSITIONS, d?.framePosition),
+    frameColor: HEX.test(String(d?.frameColor ?? '')) ? String(d.frameColor) : null,
+    frameTextColor: HEX.test(String(d?.frameTextColor ?? '')) ? String(d.frameTextColor) : '#ffffff'
+  };
+}
+
+// ---------- Caption fonts ----------
+// Captions are bold. PDF/EPS use the matching standard PostScript font; SVG names web-safe
+// families and pins the advance width with textLength so rasters match the vector layout.
+
+export const FONT_FAMILIES: Record<FrameFont, { css: string; postscript: string }> = {
+  sans: { css: 'Helvetica, Arial, sans-serif', postscript: 'Helvetica-Bold' },
+  serif: { css: "'Times New Roman', Times, serif", postscript: 'Times-Bold' },
+  mono: { css: "'Courier New', Courier, monospace", postscript: 'Courier-Bold' }
+};
+
+// Advance widths (1/1000 em) of characters 32-126 from the standard fonts' AFM files
+const WIDTHS: Record<FrameFont, number[]> = {
+  sans: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+  ],
+  serif: [
+    250, 333, 555, 500, 500, 1000, 833, 278, 333, 333, 500, 570, 250, 333, 250, 278,
+    500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 333, 333, 570, 570, 570, 500,
+    930, 722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778, 667, 944, 722, 778,
+    611, 778, 722, 556, 667, 722, 722, 1000, 722, 722, 667, 333, 278, 333, 581, 500,
+    333, 500, 556, 444, 556, 444, 333, 500, 556, 278, 333, 556, 278, 833, 556, 500,
+    556, 556, 444, 389, 333, 556, 500, 722, 500, 500, 444, 394, 220, 394, 520
+  ],
+  mono: new Array(95).fill(600)
+};
+
+export function textWidth(text: string, font: FrameFont) {
+  let w = 0;
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    w += code >= 32 && code <= 126 ? WIDTHS[font][code - 32] : WIDTHS[font][33]; // others: about an "A"
+  }
+  return w / 1000;
+}
+
+// ---------- Layout ----------
+
+export type FrameShape = { color: string; segs: Seg[]; evenOdd: boolean };
+export type Caption = { text: string; x: number; y: number; size: number; width: number; font: FrameFont; color: string };
+export type FrameLayout = {
+  width: number;
+  height: number;
+  codeX: number; // where the code (quiet zone included) goes
+  codeY: number;
+  shapes: FrameShape[];
+  caption: Caption | null;
+};
+
+// total: side of the code including its quiet zone
+export function frameLayout(frame: FrameSettings, fg: string, total: number): FrameLayout {
+  if (frame.frame === 'none') return { width: total, height: total, codeX: 0, codeY: 0, shapes: [], caption: null };
+
+  const color = frame.frameColor || fg;
+  const top = frame.framePosition === 'top';
+  const b = total * 0.04;   // border width
+  const band = total * 0.22; // caption band height
+  let width: number, height: number, codeX: number, codeY: number, bandY: number, maxText: number;
+  const shapes: FrameShape[] = [];
+
+  if (frame.frame === 'box') {
+    // Solid box with a window for the code; the caption sits in the thicker side
+    width = total + b * 2;
+    height = total + b * 2 + band;
+    codeX = b;
+    codeY = top ? b + band : b;
+    bandY = top ? b / 2 : b + total + b / 2; // centered in the band plus the outer border
+    shapes.push({ color, segs: [...rect(0, 0, width, height, radii(b * 1.5)), ...rect(codeX, codeY, total, total)], evenOdd: true });
+    maxText = width - b * 4;
+  } else if (frame.frame === 'bubble') {
+    // Rounded ring around the code and a speech bubble whose tail points at it
+    const gap = band * 0.4;
+    width = total + b * 2;
+    height = width + gap + band;
+    codeX = b;
+    codeY = top ? band + gap + b : b;
+    const ringY = codeY - b;
+    shapes.push({ color, segs: [...rect(0, ringY, width, width, radii(b * 3)), ...rect(b, codeY, total, total, radii(b * 2))], evenOdd: true });
+    bandY = top ? 0 : width + gap;
+    const mid = width / 2;
+    const tail: [number, number][] = top
+      ? [[mid - gap, bandY + band - 0.01], [mid + gap, bandY + band - 0.01], [mid, bandY + band + gap * 0.9]]
+      : [[mid - gap, bandY + 0.01], [mid, bandY - gap * 0.9], [mid + gap, bandY + 0.01]];
+    shapes.push({ color, segs: [...rect(0, bandY, width, band, radii(band * 0.3)), ...polygon(tail)], evenOdd: false });
+    maxText = width * 0.85;
+  } else {
+    // Ribbon with swallowtail ends, slightly wider than the code
+    const ear = band * 0.6;
+    width = total + ear * 2;
+    height = total + band;
+    codeX = ear;
+    codeY = top ? band : 0;
+    bandY = top ? 0 : total;
+    const notch = ear * 0.7;
+    shapes.push({
+      color,
+      segs: polygon([[0, bandY], [width, bandY], [width - notch, bandY + band / 2], [width, bandY + band], [0, bandY + band], [notch, bandY + band / 2]]),
+      evenOdd: false
+    });
+    maxText = width - notch * 2.6;
+  }
+
+  let caption: Caption | null = null;
+  if (frame.frameText) {
+    const em = textWidth(frame.frameText, frame.frameFont);
+    const size = Math.min(band * 0.55, maxText / em);
+    caption = {
+      text: frame.frameText,
+      x: width / 2,
+      y: bandY + band / 2 + size * 0.35, // baseline that centers cap height in the band
+      size,
+      width: em * size,
+      font: frame.frameFont,
+      color: frame.frameTextColor
+    };
+  }
+  return { width, height, codeX, codeY, shapes, caption };
+}
@@ -0,0 +1,546 @@
+import QRCode from 'qrcode';
+import sharp from 'sharp';
+import { z } from 'zod';
+import zlib from 'node:zlib';
+import { Seg, circle, diamond, radii, rect } from './vectorPath';
+import { FONT_FAMILIES, frameLayout, parseFrame } from './qrFrame';
+import { createPdfWriter } from './pdfWriter';
+import { assetIdFromUrl, legacyUploadName, prepareAsset, readAsset, readLegacyUpload } from './assets';
+import type { PdfWriter } from './pdfWriter';
+import type { Caption, FrameSettings } from './qrFrame';
+
+// One renderer for every output. The module matrix is laid out once as vector shapes; SVG is
+// written from them and rasterized for PNG/JPEG/WebP, while PDF and EPS draw the same paths so
+// print output has exact physical dimensions.
+
+export const OUTPUT_FORMATS = ['svg', 'png', 'jpeg', 'webp', 'pdf', 'eps'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+export type ErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export const MODULE_STYLES = ['square', 'dot', 'rounded', 'classy', 'diamond'] as const;
+export const EYE_OUTER_STYLES = ['square', 'rounded', 'circle'] as const;
+export const EYE_INNER_STYLES = ['square', 'rounded', 'circle', 'diamond'] as const;
+export const GRADIENT_TYPES = ['none', 'linear', 'radial'] as const;
+export type ModuleStyle = typeof MODULE_STYLES[number];
+export type EyeOuterStyle = typeof EYE_OUTER_STYLES[number];
+export type EyeInnerStyle = typeof EYE_INNER_STYLES[number];
+export type GradientType = typeof GRADIENT_TYPES[number];
+
+export const CONTENT_TYPES: Record<OutputFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  eps: 'application/postscript'
+};
+
+// Shape and fill settings. Eye colors default to the foreground fill; the gradient runs from fg
+// to gradientTo (angle in degrees, 0 = left to right, 90 = top to bottom; radial starts at the center).
+export type DesignStyle = {
+  moduleStyle: ModuleStyle;
+  eyeOuterStyle: EyeOuterStyle;
+  eyeInnerStyle: EyeInnerStyle;
+  eyeOuterColor: string | null;
+  eyeInnerColor: string | null;
+  gradientType: GradientType;
+  gradientTo: string | null;
+  gradientAngle: number;
+};
+
+// What QR_Code.Design / QR_Design_Preset.Design hold
+export type QrDesign = DesignStyle & FrameSettings & {
+  fg: string;
+  bg: string;
+  ec: ErrorCorrection;
+  format: OutputFormat;
+  logoUrl: string | null;
+  logoSizePct: number;
+};
+
+export type RenderOptions = {
+  size?: number;         // raster width in px (default 512, frame included); with dpi also the vector size when mm is not given
+  margin?: number;       // quiet zone in modules (default 2)
+  dpi?: number;          // density written into rasters and used for mm <-> px (default 300)
+  mm?: number;           // exact physical width (frame included); raster size becomes mm at dpi
+  transparent?: boolean; // no background (JPEG is always flattened onto bg)
+  quality?: number;      // JPEG/WebP quality 1-100; WebP is lossless without it
+  debug?: boolean;       // outline the logo box (SVG)
+};
+
+export const ecMap: Record<ErrorCorrection, QRCode.QRCodeErrorCorrectionLevel> = { L: 'low', M: 'medium', Q: 'quartile', H: 'high' };
+
+const DEFAULT_DESIGN = { fg: '#0b3d91', bg: '#ffffff', ec: 'M', format: 'svg', logoUrl: null, logoSizePct: 22 } as const;
+const HEX = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const DEFAULT_SIZE = 512;
+const DEFAULT_DPI = 300;
+const MAX_RASTER = 8192;
+
+export function parseFormat(ext: string): OutputFormat | null {
+  const f = String(ext || '').toLowerCase();
+  if (f === 'jpg') return 'jpeg';
+  return (OUTPUT_FORMATS as readonly string[]).includes(f) ? f as OutputFormat : null;
+}
+
+function oneOf<T extends string>(list: readonly T[], value: unknown): T {
+  const v = String(value ?? '').toLowerCase();
+  return (list as readonly string[]).includes(v) ? v as T : list[0];
+}
+
+function hexOrNull(value: unknown) {
+  return HEX.test(String(value ?? '')) ? String(value) : null;
+}
+
+// Shape/fill fields of a design or form body; unknown values fall back to plain squares, no gradient
+export function parseDesignStyle(d: any): DesignStyle {
+  const gradientTo = hexOrNull(d?.gradientTo);
+  const angle = Number(d?.gradientAngle);
+  return {
+    moduleStyle: oneOf(MODULE_STYLES, d?.moduleStyle),
+    eyeOuterStyle: oneOf(EYE_OUTER_STYLES, d?.eyeOuterStyle),
+    eyeInnerStyle: oneOf(EYE_INNER_STYLES, d?.eyeInnerStyle),
+    eyeOuterColor: hexOrNull(d?.eyeOuterColor),
+    eyeInnerColor: hexOrNull(d?.eyeInnerColor),
+    gradientType: gradientTo ? oneOf(GRADIENT_TYPES, d?.gradientType) : 'none',
+    gradientTo,
+    gradientAngle: Number.isFinite(angle) ? ((Math.round(angle) % 360) + 360) % 360 : 0
+  };
+}
+
+// Stored designs are loose JSON; anything missing or malformed falls back to the defaults
+export function parseDesign(raw: unknown): QrDesign {
+  let d: any = raw;
+  if (typeof raw === 'string') {
+    try { d = JSON.parse(raw || '{}'); } catch (e) { console.error('Error parsing design:', e); d = {}; }
+  }
+  d = d || {};
+  const ec = String(d.ec || '').toUpperCase();
+  const logoSizePct = Number(d.logoSizePct);
+  return {
+    fg: HEX.test(String(d.fg)) ? String(d.fg) : DEFAULT_DESIGN.fg,
+    bg: HEX.test(String(d.bg)) ? String(d.bg) : DEFAULT_DESIGN.bg,
+    ec: ec in ecMap ? ec as ErrorCorrection : DEFAULT_DESIGN.ec,
+    format: parseFormat(d.format) || DEFAULT_DESIGN.format,
+    logoUrl: d.logoUrl ? String(d.logoUrl) : null,
+    logoSizePct: Number.isFinite(logoSizePct) && logoSizePct > 0 ? Math.max(10, Math.min(40, logoSizePct)) : DEFAULT_DESIGN.logoSizePct,
+    ...parseDesignStyle(d),
+    ...parseFrame(d)
+  };
+}
+
+// Query string of the render routes
+export const RenderQuery = z.object({
+  size: z.coerce.number().int().min(64, { message: 'size must be 64-4096' }).max(4096, { message: 'size must be 64-4096' }).optional(),
+  margin: z.coerce.number().int().min(0, { message: 'margin must be 0-20' }).max(20, { message: 'margin must be 0-20' }).optional(),
+  dpi: z.coerce.number().int().min(72, { message: 'dpi must be 72-1200' }).max(1200, { message: 'dpi must be 72-1200' }).optional(),
+  mm: z.coerce.number().min(5, { message: 'mm must be 5-1000' }).max(1000, { message: 'mm must be 5-1000' }).optional(),
+  transparent: z.enum(['0', '1']).optional(),
+  quality: z.coerce.number().int().min(1, { message: 'quality must be 1-100' }).max(100, { message: 'quality must be 1-100' }).optional(),
+  debug: z.enum(['0', '1']).optional()
+});
+
+export function renderOptionsFromQuery(q: z.infer<typeof RenderQuery>): RenderOptions {
+  return { ...q, transparent: q.transparent === '1', debug: q.debug === '1' };
+}
+
+// Logos are uploads (library assets or legacy /uploads files) or inline images. The raster, PDF and
+// EPS renderers never fetch remote URLs, so a design pointing at one is refused when it's saved.
+export const LOGO_URL_MESSAGE = 'Upload the logo instead of linking to it';
+
+export function isAllowedLogoUrl(logoUrl: string) {
+  return /^data:image\/(png|jpe?g|webp|svg\+xml);base64,/i.test(logoUrl) || !!assetIdFromUrl(logoUrl) || !!legacyUploadName(logoUrl);
+}
+
+export async function resolveLogoHref(logoUrl: string): Promise<string> {
+  try {
+    if (!logoUrl) return logoUrl;
+    // Inline uploaded files as data URLs to ensure they render inside <img src=SVG>
+    const assetId = assetIdFromUrl(logoUrl);
+    if (assetId) {
+      const asset = await readAsset(assetId);
+      if (!asset) throw new Error('Asset not found');
+      return `data:${asset.mime};base64,${asset.data.toString('base64')}`;
+    }
+    // Files uploaded before the asset library, not yet moved by the asset cleanup job. They were
+    // never checked, so they go through the same sanitizing as a new upload
+    const legacy = legacyUploadName(logoUrl);
+    if (legacy) {
+      const buf = await readLegacyUpload(legacy);
+      if (!buf) throw new Error('Legacy upload not found');
+      const asset = await prepareAsset(buf);
+      return `data:${asset.mime};base64,${asset.data.toString('base64')}`;
+    }
+    return logoUrl;
+  } catch {
+    console.error('resolveLogoHref failed', { logoUrl });
+    return logoUrl;
+  }
+}
+
+// ---------- Layout (module units, y down; origin top-left of the frame, or of the quiet zone without one) ----------
+
+type Gradient = { type: 'linear' | 'radial'; from: string; to: string; coords: number[] }; // x0 y0 x1 y1 | cx cy r
+type Paint = string | Gradient;
+type Shape = { paint: Paint; segs: Seg[]; evenOdd: boolean; crisp: boolean }; // crisp: axis-aligned, no anti-aliasing seams
+type LogoBox = { href: string; x: number; y: number; size: number; pad: number; kx: number; ky: number; kw: number };
+export type Layout = { width: number; height: number; shapes: Shape[]; logo: LogoBox | null; caption: Caption | null };
+
+// Outer ring of a finder pattern: 7x7 shape minus a 5x5 hole (filled even-odd)
+function eyeOuter(style: EyeOuterStyle, x: number, y: number): Seg[] {
+  if (style === 'circle') return [...circle(x + 3.5, y + 3.5, 3.5), ...circle(x + 3.5, y + 3.5, 2.5)];
+  if (style === 'rounded') return [...rect(x, y, 7, 7, radii(2)), ...rect(x + 1, y + 1, 5, 5, radii(1.2))];
+  return [...rect(x, y, 7, 7), ...rect(x + 1, y + 1, 5, 5)];
+}
+
+function eyeInner(style: EyeInnerStyle, x: number, y: number): Seg[] {
+  if (style === 'circle') return circle(x + 1.5, y + 1.5, 1.5);
+  if (style === 'diamond') return diamond(x - 0.25, y - 0.25, 3.5);
+  if (style === 'rounded') return rect(x, y, 3, 3, radii(0.75));
+  return rect(x, y, 3, 3);
+}
+
+// Centered logo in a code `total` modules wide (quiet zone included); modules within the padded
+// knockout square (kOffset, kw) are not drawn
+export function logoKnockout(total: number, logoSizePct: number) {
+  const size = (logoSizePct / 100) * total;
+  const offset = (total - size) / 2;
+  const pad = Math.max(0.1, size * 0.06);
+  return { size, offset, pad, kOffset: Math.max(0, offset - pad), kw: Math.min(total, size + pad * 2) };
+}
+
+// Gradient across the code square at (ox, oy)
+function foregroundPaint(design: QrDesign, total: number, ox: number, oy: number): Paint {
+  if (design.gradientType === 'none' || !design.gradientTo) return design.fg;
+  const c = total / 2;
+  if (design.gradientType === 'radial') {
+    return { type: 'radial', from: design.fg, to: design.gradientTo, coords: [ox + c, oy + c, c] };
+  }
+  const a = design.gradientAngle * Math.PI / 180;
+  const dx = Math.cos(a), dy = Math.sin(a);
+  const half = c * (Math.abs(dx) + Math.abs(dy)); // reaches the far corners at any angle
+  return { type: 'linear', from: design.fg, to: design.gradientTo, coords: [ox + c - dx * half, oy + c - dy * half, ox + c + dx * half, oy + c + dy * half] };
+}
+
+export async function layout(content: string, design: QrDesign, margin: number): Promise<Layout> {
+  const { modules } = QRCode.create(content, { errorCorrectionLevel: ecMap[design.ec] });
+  const n = modules.size;
+  const total = n + margin * 2;
+  const frame = frameLayout(design, design.fg, total);
+  const ox = frame.codeX + margin, oy = frame.codeY + margin; // top-left module
+
+  let logo: LogoBox | null = null;
+  const href = design.logoUrl ? await resolveLogoHref(design.logoUrl) : '';
+  if (href) {
+    const { size, offset, pad, kOffset, kw } = logoKnockout(total, design.logoSizePct);
+    logo = {
+      href, size, pad, kw,
+      x: frame.codeX + offset, y: frame.codeY + offset,
+      kx: frame.codeX + kOffset, ky: frame.codeY + kOffset
+    };
+  }
+
+  // Finder patterns are drawn as eyes; modules touching the logo's knockout box are left out so
+  // the logo sits on clean background
+  const inEye = (c: number, r: number) => (r < 7 && (c < 7 || c >= n - 7)) || (c < 7 && r >= n - 7);
+  const hidden = (c: number, r: number) => !!logo &&
+    c + ox + 1 > logo.kx && c + ox < logo.kx + logo.kw && r + oy + 1 > logo.ky && r + oy < logo.ky + logo.kw;
+  const dark = (c: number, r: number) => c >= 0 && r >= 0 && c < n && r < n && !!modules.get(r, c) && !inEye(c, r) && !hidden(c, r);
+
+  const segs: Seg[] = [];
+  const style = design.moduleStyle;
+  for (let r = 0; r < n; r++) {
+    if (style === 'square') {
+      // Horizontal runs: fewer path nodes and no hairline seams between neighbours
+      let start = -1;
+      for (let c = 0; c <= n; c++) {
+        const on = dark(c, r);
+        if (on && start < 0) start = c;
+        if (!on && start >= 0) {
+          segs.push(...rect(start + ox, r + oy, c - start, 1));
+          start = -1;
+        }
+      }
+      continue;
+    }
+    for (let c = 0; c < n; c++) {
+      if (!dark(c, r)) continue;
+      const x = c + ox, y = r + oy;
+      if (style === 'dot') { segs.push(...circle(x + 0.5, y + 0.5, 0.45)); continue; }
+      if (style === 'diamond') { segs.push(...diamond(x, y, 1)); continue; }
+      // rounded: round every corner with no dark neighbour on either side; classy: only top-left and bottom-right
+      const up = dark(c, r - 1), down = dark(c, r + 1), left = dark(c - 1, r), right = dark(c + 1, r);
+      const round = (a: boolean, b: boolean) => (!a && !b ? 0.5 : 0);
+      segs.push(...rect(x, y, 1, 1, [
+        round(up, left),
+        style === 'classy' ? 0 : round(up, right),
+        round(down, right),
+        style === 'classy' ? 0 : round(down, left)
+      ]));
+    }
+  }
+
+  const fill = foregroundPaint(design, total, frame.codeX, frame.codeY);
+  const corners = [[ox, oy], [ox + n - 7, oy], [ox, oy + n - 7]];
+  const shapes: Shape[] = [
+    ...frame.shapes.map(f => ({ paint: f.color, segs: f.segs, evenOdd: f.evenOdd, crisp: false })),
+    { paint: fill, segs, evenOdd: false, crisp: style === 'square' },
+    { paint: design.eyeOuterColor || fill, segs: corners.flatMap(([x, y]) => eyeOuter(design.eyeOuterStyle, x, y)), evenOdd: true, crisp: design.eyeOuterStyle === 'square' },
+    { paint: design.eyeInnerColor || fill, segs: corners.flatMap(([x, y]) => eyeInner(design.eyeInnerStyle, x + 2, y + 2)), evenOdd: false, crisp: design.eyeInnerStyle === 'square' }
+  ];
+  return { width: frame.width, height: frame.height, shapes, logo, caption: frame.caption };
+}
+
+export function num(v: number) {
+  return Number(v.toFixed(3)).toString();
+}
+
+function escapeAttr(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+// Caption text as a PDF/PostScript string literal. Both get Latin-1 (WinAnsi/ISOLatin1) fonts;
+// characters outside it print as "?".
+export function psString(text: string) {
+  const latin1 = Array.from(text, ch => (ch.codePointAt(0)! <= 0xff ? ch : '?')).join('');
+  return `(${latin1.replace(/[\\()]/g, m => `\\${m}`)})`;
+}
+
+function rgb(hex: string): [number, number, number] {
+  let h = hex.slice(1);
+  if (h.length === 3) h = h.split('').map(ch => ch + ch).join('');
+  return [0, 2, 4].map(i => parseInt(h.slice(i, i + 2), 16) / 255) as [number, number, number];
+}
+
+export function rgbList(hex: string) {
+  return rgb(hex).map(num).join(' ');
+}
+
+// ---------- SVG ----------
+
+function buildSvg(l: Layout, design: QrDesign, px: number, transparent: boolean, debug: boolean) {
+  const height = Math.round(px * l.height / l.width);
+  const parts: string[] = [];
+  const defs: string[] = [];
+  const paintRef = (paint: Paint) => {
+    if (typeof paint === 'string') return paint;
+    const id = `g${defs.length}`;
+    const stops = `<stop offset="0" stop-color="${paint.from}"/><stop offset="1" stop-color="${paint.to}"/>`;
+    const [a, b, c, d] = paint.coords.map(num);
+    defs.push(paint.type === 'radial'
+      ? `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${a}" cy="${b}" r="${c}">${stops}</radialGradient>`
+      : `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${a}" y1="${b}" x2="${c}" y2="${d}">${stops}</linearGradient>`);
+    return `url(#${id})`;
+  };
+
+  if (!transparent) parts.push(`<rect width="${num(l.width)}" height="${num(l.height)}" fill="${design.bg}"/>`);
+  for (const shape of l.shapes) {
+    if (!shape.segs.length) continue;
+    const d = shape.segs.map(([op, ...v]) => op + v.map(num).join(' ')).join('');
+    const attrs = `${shape.evenOdd ? ' fill-rule="evenodd"' : ''}${shape.crisp ? ' shape-rendering="crispEdges"' : ''}`;
+    parts.push(`<path fill="${paintRef(shape.paint)}"${attrs} d="${d}"/>`);
+  }
+  if (l.logo) {
+    const { href, x, y, size, pad, kx, ky, kw } = l.logo;
+    parts.push(`<image href="${escapeAttr(href)}" x="${num(x)}" y="${num(y)}" width="${num(size)}" height="${num(size)}" preserveAspectRatio="xMidYMid meet"/>`);
+    parts.push(`<rect x="${num(kx)}" y="${num(ky)}" width="${num(kw)}" height="${num(kw)}" rx="${num(pad)}" ry="${num(pad)}" fill="none" stroke="${design.fg}" stroke-width="0.1"/>`);
+    if (debug) {
+      parts.push(`<rect x="${num(x)}" y="${num(y)}" width="${num(size)}" height="${num(size)}" fill="none" stroke="red" stroke-width="0.1"/>`);
+      parts.push(`<text x="1" y="2" fill="red" font-size="1">logoSize=${size.toFixed(2)} x=${x.toFixed(2)} y=${y.toFixed(2)}</text>`);
+    }
+  }
+  if (l.caption) {
+    const { text, x, y, size, width, font, color } = l.caption;
+    parts.push(`<text x="${num(x)}" y="${num(y)}" font-family="${escapeAttr(FONT_FAMILIES[font].css)}" font-weight="bold" font-size="${num(size)}" ` +
+      `fill="${color}" text-anchor="middle" textLength="${num(width)}" lengthAdjust="spacingAndGlyphs">${escapeAttr(text).replace(/>/g, '&gt;')}</text>`);
+  }
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${px}" height="${height}" viewBox="0 0 ${num(l.width)} ${num(l.height)}">`,
+    defs.length ? `<defs>${defs.join('')}</defs>` : '',
+    ...parts,
+    '</svg>'
+  ].join('');
+}
+
+// ---------- Logo pixels for PDF/EPS (raster logos are embedded as images) ----------
+
+// 300 dpi at the printed size, but never more than MAX_LOGO_PX: vector outputs take any mm and
+// the EPS hex dump is 6 bytes per pixel
+const MAX_LOGO_PX = 1024;
+
+function logoRasterPx(sizePt: number) {
+  return Math.min(MAX_LOGO_PX, Math.max(64, Math.round(sizePt / 72 * 300)));
+}
+
+async function logoPixels(href: string, px: number, flattenOnto?: string) {
+  const m = /^data:[^;,]+;base64,(.*)$/s.exec(href);
+  if (!m) return null; // remote logos aren't fetched server-side
+  try {
+    let img = sharp(Buffer.from(m[1], 'base64'), { density: 300 })
+      .resize(px, px, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } });
+    img = flattenOnto ? img.flatten({ background: flattenOnto }) : img.ensureAlpha();
+    const { data, info } = await img.raw().toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height, channels: info.channels };
+  } catch (e) {
+    console.error('Logo decode failed:', e);
+    return null;
+  }
+}
+
+// PDF and PostScript are y-up in points: maps module coordinates onto a page pt wide
+function pageTransform(l: Layout, pt: number) {
+  const s = pt / l.width;
+  const h = l.height * s;
+  const X = (x: number) => x * s;
+  const Y = (y: number) => h - y * s;
+  // Shared path writer; ops maps M/L/C/Z to the target language's operators
+  const path = (segs: Seg[], ops: Record<Seg[0], string>) => segs.map(([op, ...v]) => {
+    const pts = v.map((n, i) => num(i % 2 ? Y(n) : X(n)));
+    return pts.length ? `${pts.join(' ')} ${ops[op]}` : ops[op];
+  }).join(' ');
+  // Gradient coordinates on the page (radius only scales)
+  const coords = (g: Gradient) => g.type === 'radial'
+    ? [X(g.coords[0]), Y(g.coords[1]), 0, X(g.coords[0]), Y(g.coords[1]), g.coords[2] * s]
+    : [X(g.coords[0]), Y(g.coords[1]), X(g.coords[2]), Y(g.coords[3])];
+  return { s, h, X, Y, path, coords };
+}
+
+function shadingDict(g: Gradient, coords: number[]) {
+  return `<< /ShadingType ${g.type === 'radial' ? 3 : 2} /ColorSpace /DeviceRGB /Coords [${coords.map(num).join(' ')}] ` +
+    `/Function << /FunctionType 2 /Domain [0 1] /C0 [${rgbList(g.from)}] /C1 [${rgbList(g.to)}] /N 1 >> /Extend [true true] >>`;
+}
+
+// ---------- PDF ----------
+
+const PDF_OPS = { M: 'm', L: 'l', C: 'c', Z: 'h' } as const;
+
+// Content-stream operators drawing the code pt wide with its bottom-left corner at the origin;
+// label sheets place several of these on one page with a translation
+export async function drawPdf(pdf: PdfWriter, l: Layout, design: QrDesign, pt: number, transparent: boolean): Promise<string[]> {
+  const { s, h, X, Y, path, coords } = pageTransform(l, pt);
+  const ops: string[] = [];
+  if (!transparent) ops.push(`${rgbList(design.bg)} rg 0 0 ${num(pt)} ${num(h)} re f`);
+  for (const shape of l.shapes) {
+    if (!shape.segs.length) continue;
+    if (typeof shape.paint === 'string') ops.push(`${rgbList(shape.paint)} rg`);
+    else {
+      const ref = pdf.add(`<< /Type /Pattern /PatternType 2 /Shading ${shadingDict(shape.paint, coords(shape.paint))} >>`);
+      ops.push(`/Pattern cs ${pdf.pattern(ref)} scn`);
+    }
+    ops.push(`${path(shape.segs, PDF_OPS)} ${shape.evenOdd ? 'f*' : 'f'}`);
+  }
+
+  if (l.logo) {
+    const { href, x, y, size, pad, kx, ky, kw } = l.logo;
+    const px = logoRasterPx(size * s);
+    const logoRef = await pdf.once(`logo:${px}:${href}`, async () => {
+      const image = await logoPixels(href, px);
+      if (!image) return null;
+      const count = image.width * image.height;
+      const color = Buffer.alloc(count * 3);
+      const alpha = Buffer.alloc(count);
+      for (let i = 0; i < count; i++) {
+        image.data.copy(color, i * 3, i * 4, i * 4 + 3);
+        alpha[i] = image.data[i * 4 + 3];
+      }
+      const dims = `/Width ${image.width} /Height ${image.height} /BitsPerComponent 8`;
+      const mask = pdf.add(pdf.stream(`/Type /XObject /Subtype /Image ${dims} /ColorSpace /DeviceGray /Filter /FlateDecode`, zlib.deflateSync(alpha)));
+      return pdf.add(pdf.stream(`/Type /XObject /Subtype /Image ${dims} /ColorSpace /DeviceRGB /SMask ${mask} 0 R /Filter /FlateDecode`, zlib.deflateSync(color)));
+    });
+    if (logoRef) {
+      ops.push(`q ${num(size * s)} 0 0 ${num(size * s)} ${num(X(x))} ${num(Y(y + size))} cm ${pdf.xobject(logoRef)} Do Q`);
+    }
+    ops.push(`${rgbList(design.fg)} RG ${num(0.1 * s)} w`);
+    ops.push(`${path(rect(kx, ky, kw, kw, radii(pad)), PDF_OPS)} S`);
+  }
+
+  if (l.caption) {
+    const { text, x, y, size, width, font, color } = l.caption;
+    ops.push(`BT ${pdf.font(FONT_FAMILIES[font].postscript)} ${num(size * s)} Tf ${rgbList(color)} rg ${num(X(x - width / 2))} ${num(Y(y))} Td ${psString(text)} Tj ET`);
+  }
+  return ops;
+}
+
+async function buildPdf(l: Layout, design: QrDesign, pt: number, transparent: boolean): Promise<Buffer> {
+  const pdf = createPdfWriter();
+  const ops = await drawPdf(pdf, l, design, pt, transparent);
+  pdf.page(pt, pt * l.height / l.width, ops);
+  return pdf.finish();
+}
+
+// ---------- EPS ----------
+
+const PS_OPS = { M: 'moveto', L: 'lineto', C: 'curveto', Z: 'closepath' } as const;
+
+async function buildEps(l: Layout, design: QrDesign, pt: number, transparent: boolean): Promise<Buffer> {
+  const { s, h, X, Y, path, coords } = pageTransform(l, pt);
+  const shaded = l.shapes.some(shape => typeof shape.paint !== 'string');
+  const out: string[] = [
+    '%!PS-Adobe-3.0 EPSF-3.0',
+    `%%BoundingBox: 0 0 ${Math.ceil(pt)} ${Math.ceil(h)}`,
+    `%%HiResBoundingBox: 0 0 ${num(pt)} ${num(h)}`,
+    '%%Creator: Dynamic QR Code',
+    `%%LanguageLevel: ${shaded ? 3 : 2}`, // shfill needs level 3
+    '%%EndComments',
+    'gsave'
+  ];
+  if (!transparent) out.push(`${rgbList(design.bg)} setrgbcolor 0 0 ${num(pt)} ${num(h)} rectfill`);
+  for (const shape of l.shapes) {
+    if (!shape.segs.length) continue;
+    const p = `newpath ${path(shape.segs, PS_OPS)}`;
+    if (typeof shape.paint === 'string') {
+      out.push(`${rgbList(shape.paint)} setrgbcolor ${p} ${shape.evenOdd ? 'eofill' : 'fill'}`);
+    } else {
+      out.push(`gsave ${p} ${shape.evenOdd ? 'eoclip' : 'clip'} ${shadingDict(shape.paint, coords(shape.paint))} shfill grestore`);
+    }
+  }
+
+  if (l.logo) {
+    const { x, y, size, pad, kx, ky, kw } = l.logo;
+    // No alpha in EPS: the logo is composited onto the background first
+    const image = await logoPixels(l.logo.href, logoRasterPx(size * s), transparent ? '#ffffff' : design.bg);
+    if (image) {
+      const hex = image.data.toString('hex').replace(/.{1,120}/g, line => `${line}\n`);
+      out.push('gsave');
+      out.push(`${num(X(x))} ${num(Y(y + size))} translate ${num(size * s)} ${num(size * s)} scale`);
+      out.push(`${image.width} ${image.height} 8 [${image.width} 0 0 -${image.height} 0 ${image.height}] currentfile /ASCIIHexDecode filter false 3 colorimage`);
+      out.push(`${hex}>`);
+      out.push('grestore');
+    }
+    out.push(`${rgbList(design.fg)} setrgbcolor ${num(0.1 * s)} setlinewidth newpath`);
+    out.push(`${path(rect(kx, ky, kw, kw, radii(pad)), PS_OPS)} stroke`);
+  }
+
+  if (l.caption) {
+    const { text, x, y, size, width, font, color } = l.caption;
+    // Re-encode the standard font as Latin-1 so accented captions print
+    out.push(`/${FONT_FAMILIES[font].postscript} findfont dup length dict begin { 1 index /FID ne { def } { pop pop } ifelse } forall ` +
+      '/Encoding ISOLatin1Encoding def currentdict end /CaptionFont exch definefont pop');
+    out.push(`/CaptionFont ${num(size * s)} selectfont ${rgbList(color)} setrgbcolor ${num(X(x - width / 2))} ${num(Y(y))} moveto ${psString(text)} show`);
+  }
+
+  out.push('grestore', 'showpage', '%%EOF', '');
+  return Buffer.from(out.join('\n'), 'latin1');
+}
+
+// ---------- Entry point ----------
+
+export async function renderQr(content: string, design: QrDesign, format: OutputFormat, opts: RenderOptions = {}): Promise<Buffer | string> {
+  const margin = opts.margin ?? 2;
+  const dpi = opts.dpi ?? DEFAULT_DPI;
+  const px = opts.mm ? Math.round(opts.mm / 25.4 * dpi) : (opts.size ?? DEFAULT_SIZE);
+  const pt = opts.mm ? opts.mm / 25.4 * 72 : px / dpi * 72;
+  const transparent = !!opts.transparent && format !== 'jpeg';
+
+  const l = await layout(content, design, margin);
+  if (format === 'pdf') return buildPdf(l, design, pt, transparent);
+  if (format === 'eps') return buildEps(l, design, pt, transparent);
+
+  if (format !== 'svg' && px > MAX_RASTER) throw new Error(`Images can be at most ${MAX_RASTER}px wide`);
+  const svg = buildSvg(l, design, px, transparent, !!opts.debug);
+  if (format === 'svg') return svg;
+
+  const img = sharp(Buffer.from(svg)).withMetadata({ density: dpi });
+  if (format === 'png') return img.png().toBuffer();
+  if (format === 'jpeg') return img.flatten({ background: design.bg }).jpeg({ quality: opts.quality ?? 90 }).toBuffer();
+  return img.webp(opts.quality ? { quality: opts.quality } : { lossless: true }).toBuffer();
+}
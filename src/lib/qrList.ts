@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+export const SORT_COLUMNS = { name: 'Name', created: 'CreatedAt', scans: 'ScanCount' } as const;
+export type ListSort = keyof typeof SORT_COLUMNS;
+
+const csvList = z.string().transform(s => s.split(',').map(v => v.trim()).filter(Boolean));
+
+export const ListQuery = z.object({
+  q: z.string().trim().max(200).optional(),
+  tags: csvList.pipe(z.array(z.uuid({ message: 'tags must be tag ids' }))).optional(),
+  createdFrom: z.coerce.date({ message: 'createdFrom must be a date' }).optional(),
+  createdTo: z.coerce.date({ message: 'createdTo must be a date' }).optional(),
+  minScans: z.coerce.number().int().min(0).optional(),
+  maxScans: z.coerce.number().int().min(0).optional(),
+  sort: z.enum(['name', 'created', 'scans'], { message: 'sort must be name, created or scans' }).default('created'),
+  order: z.enum(['asc', 'desc'], { message: 'order must be asc or desc' }).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: z.string().optional(),
+  archived: z.enum(['0', '1']).default('0'),
+  broken: z.enum(['0', '1']).optional(),
+});
+export type ListQuery = z.infer<typeof ListQuery>;
+
+// Names read A-Z by default, dates and scan counts newest/highest first
+export function sortOrder(q: ListQuery) {
+  return q.order || (q.sort === 'name' ? 'asc' : 'desc');
+}
+
+// Opaque keyset cursor: the sort value of the last row plus its Id as tie-breaker
+export type ListCursor = { v: string | number; id: string };
+
+export function encodeCursor(sort: ListSort, row: any): string {
+  const v = sort === 'created' ? String(row.CreatedKey)
+    : sort === 'scans' ? Number(row.ScanCount)
+    : String(row.Name);
+  return Buffer.from(JSON.stringify({ v, id: row.Id })).toString('base64url');
+}
+
+export function decodeCursor(sort: ListSort, raw: string): ListCursor {
+  let c: any;
+  try {
+    c = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  const validValue = sort === 'scans' ? Number.isInteger(c?.v)
+    : sort === 'created' ? typeof c?.v === 'string' && /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,7})?$/.test(c.v)
+    : typeof c?.v === 'string';
+  if (!validValue || typeof c?.id !== 'string' || !/^[0-9a-f-]{36}$/i.test(c.id)) {
+    throw new Error('Invalid cursor');
+  }
+  return c;
+}
+
+// LIKE treats %, _ and [ as wildcards; search terms are matched literally
+export function likePattern(term: string) {
+  return `%${term.replace(/[\\%_[]/g, m => '\\' + m)}%`;
+}
@@ -0,0 +1,37 @@
+import { env } from '../config';
+import { sha256Hex } from './crypto';
+import { CONTENT_TYPES, renderQr } from './qrImage';
+import type { OutputFormat, QrDesign, RenderOptions } from './qrImage';
+import { getStorage } from './storage';
+
+// Rendered images kept in blob storage under renders/<hash>.<format>, so instances share the work
+// of rasterizing. The key covers everything that affects the output (logos are referenced by
+// immutable asset ids); bump RENDER_VERSION when the renderer's output changes. SVG is cheap to
+// build and never cached. Only default option sets are cached: size, mm, quality etc. come from
+// the anonymous query string, so keying on them would let anyone fill the bucket. The storage job
+// drops entries older than RENDER_CACHE_DAYS.
+
+const RENDER_VERSION = 1;
+export const RENDER_PREFIX = 'renders/';
+
+function isDefault(opts: RenderOptions) {
+  return Object.values(opts).every(v => v === undefined || v === false);
+}
+
+export async function renderQrCached(content: string, design: QrDesign, format: OutputFormat, opts: RenderOptions = {}): Promise<Buffer | string> {
+  if (format === 'svg' || env.RENDER_CACHE_DAYS <= 0 || !isDefault(opts)) return renderQr(content, design, format, opts);
+
+  const storage = getStorage();
+  const key = `${RENDER_PREFIX}${sha256Hex(JSON.stringify([RENDER_VERSION, content, design, format]))}.${format}`;
+  const hit = await storage.get(key).catch(err => {
+    console.error('Render cache read failed:', err);
+    return null;
+  });
+  if (hit) return hit;
+
+  const body = await renderQr(content, design, format, opts);
+  // A failed write only costs a re-render next time
+  storage.put(key, Buffer.from(body), { contentType: CONTENT_TYPES[format] })
+    .catch(err => console.error('Render cache write failed:', err));
+  return body;
+}
@@ -0,0 +1,9 @@
+import { FastifyRequest } from 'fastify';
+import { verifyAccess } from './jwt';
+import type { AccessPayload } from './jwt';
+
+export function getUserOrThrow(req: FastifyRequest): AccessPayload {
+  const at = (req.cookies as any)?.at as string | undefined;
+  if (!at) throw new Error('unauthorized');
+  try { return verifyAccess(at); } catch { throw new Error('unauthorized'); }
+}
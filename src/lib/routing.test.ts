@@ -0,0 +1,63 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { pickRule, pickWeighted, preferredLanguage, ruleMatches } from './routing';
+import type { ScanContext } from './routing';
+
+const iphone: ScanContext = { os: 'iOS 17.4', device: 'iPhone', country: 'CA', region: 'QC', lang: 'fr-ca' };
+
+test('preferred language takes the highest q value', () => {
+  assert.equal(preferredLanguage('en-US,en;q=0.8,fr-CA;q=0.9'), 'en-us');
+  assert.equal(preferredLanguage('*;q=1, de;q=0.5'), 'de');
+  assert.equal(preferredLanguage('fr;q=0'), null);
+  assert.equal(preferredLanguage(undefined), null);
+});
+
+test('a rule without conditions matches every scan', () => {
+  assert.equal(ruleMatches({}, iphone), true);
+  assert.equal(ruleMatches({ os: [], country: [] }, iphone), true);
+});
+
+test('every set condition must match, values inside one are alternatives', () => {
+  assert.equal(ruleMatches({ os: ['android', 'ios'] }, iphone), true);
+  assert.equal(ruleMatches({ os: ['ios'], country: ['us'] }, iphone), false);
+  assert.equal(ruleMatches({ country: [' ca '], region: ['qc'] }, iphone), true);
+  assert.equal(ruleMatches({ device: ['ipad'] }, iphone), false);
+});
+
+test('country and region need an exact match, unknown location matches nothing', () => {
+  assert.equal(ruleMatches({ country: ['c'] }, iphone), false);
+  assert.equal(ruleMatches({ country: ['ca'] }, { ...iphone, country: null }), false);
+});
+
+test('a language matches itself and its regional variants only', () => {
+  assert.equal(ruleMatches({ lang: ['fr'] }, iphone), true);
+  assert.equal(ruleMatches({ lang: ['fr-ca'] }, iphone), true);
+  assert.equal(ruleMatches({ lang: ['fr-fr'] }, iphone), false);
+  assert.equal(ruleMatches({ lang: ['f'] }, iphone), false);
+  assert.equal(ruleMatches({ lang: ['fr'] }, { ...iphone, lang: null }), false);
+});
+
+test('the first matching rule in list order wins', () => {
+  const rules = [
+    { Id: 'android', Conditions: { os: ['android'] } },
+    { Id: 'canada', Conditions: { country: ['ca'] } },
+    { Id: 'french', Conditions: { lang: ['fr'] } }
+  ];
+  assert.equal(pickRule(rules, iphone)?.Id, 'canada');
+  assert.equal(pickRule(rules, { ...iphone, country: 'US', lang: 'en' }), null);
+});
+
+test('weighted pick splits the roll by weight', () => {
+  const items = [{ Id: 'a', Weight: 1 }, { Id: 'b', Weight: 3 }];
+  assert.equal(pickWeighted(items, 0)?.Id, 'a');
+  assert.equal(pickWeighted(items, 0.24)?.Id, 'a');
+  assert.equal(pickWeighted(items, 0.25)?.Id, 'b');
+  assert.equal(pickWeighted(items, 0.999)?.Id, 'b');
+});
+
+test('weighted pick never returns a zero or negative weight', () => {
+  const items = [{ Id: 'off', Weight: 0 }, { Id: 'on', Weight: 2 }, { Id: 'bad', Weight: -5 }];
+  for (const roll of [0, 0.5, 0.999]) assert.equal(pickWeighted(items, roll)?.Id, 'on');
+  assert.equal(pickWeighted([{ Id: 'off', Weight: 0 }], 0.5), null);
+  assert.equal(pickWeighted([], 0.5), null);
+});
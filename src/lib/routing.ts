@@ -0,0 +1,82 @@
+export type RuleConditions = {
+  os?: string[];
+  device?: string[];
+  country?: string[];
+  region?: string[];
+  lang?: string[];
+};
+
+export type ScanContext = {
+  os: string;
+  device: string;
+  country: string | null;
+  region: string | null;
+  lang: string | null;
+};
+
+// Most preferred language tag from an Accept-Language header, e.g. "fr-CA,fr;q=0.9" -> "fr-ca"
+export function preferredLanguage(header: string | undefined): string | null {
+  if (!header) return null;
+  const langs = header.split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';');
+      const qParam = params.find(p => p.trim().startsWith('q='));
+      const q = qParam ? Number(qParam.trim().slice(2)) : 1;
+      return { tag: tag.trim().toLowerCase(), q: Number.isFinite(q) ? q : 0 };
+    })
+    .filter(l => l.tag && l.tag !== '*' && l.q > 0)
+    .sort((a, b) => b.q - a.q);
+  return langs.length ? langs[0].tag : null;
+}
+
+function matchesAny(values: string[] | undefined, test: (v: string) => boolean) {
+  if (!values || !values.length) return true; // condition not set
+  return values.some(v => test(v.trim().toLowerCase()));
+}
+
+// Every condition that is set must match; values inside one condition are alternatives
+export function ruleMatches(cond: RuleConditions, ctx: ScanContext): boolean {
+  const os = ctx.os.toLowerCase();
+  const device = ctx.device.toLowerCase();
+  const country = (ctx.country || '').toLowerCase();
+  const region = (ctx.region || '').toLowerCase();
+  const lang = (ctx.lang || '').toLowerCase();
+
+  return matchesAny(cond.os, v => os.includes(v))
+    && matchesAny(cond.device, v => device.includes(v))
+    && matchesAny(cond.country, v => v === country)
+    && matchesAny(cond.region, v => v === region)
+    && matchesAny(cond.lang, v => lang === v || lang.startsWith(`${v}-`));
+}
+
+// First rule in list order wins
+export function pickRule<T extends { Conditions: RuleConditions }>(rules: T[], ctx: ScanContext): T | null {
+  return rules.find(r => ruleMatches(r.Conditions, ctx)) || null;
+}
+
+// Weighted random choice; items with weight 0 are never picked
+export function pickWeighted<T extends { Weight: number }>(items: T[], rand = Math.random()): T | null {
+  const total = items.reduce((sum, i) => sum + Math.max(0, i.Weight), 0);
+  if (total <= 0) return null;
+  let roll = rand * total;
+  for (const item of items) {
+    roll -= Math.max(0, item.Weight);
+    if (roll < 0) return item;
+  }
+  return items[items.length - 1];
+}
+
+// Sticky A/B assignment cookie, one per QR code so renaming the slug keeps it
+export function splitCookieName(qrId: string) {
+  return `qrv_${String(qrId).toLowerCase().replace(/-/g, '')}`;
+}
+
+// Random id per scanner in a split test; results count these rather than raw scans
+export function scannerCookieName(qrId: string) {
+  return `qrs_${String(qrId).toLowerCase().replace(/-/g, '')}`;
+}
+
+// Set once a scanner's conversion was counted, so repeat pixel hits from that browser don't count again
+export function conversionCookieName(qrId: string) {
+  return `qrc_${String(qrId).toLowerCase().replace(/-/g, '')}`;
+}
@@ -0,0 +1,39 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { checkScannability, contrastRatio } from './scannability';
+import { parseDesign } from './qrImage';
+
+const LINK = 'https://qr.example.com/r/spring-sale';
+
+test('contrast ratio follows WCAG', () => {
+  assert.equal(Number(contrastRatio('#000000', '#ffffff').toFixed(1)), 21);
+  assert.equal(contrastRatio('#777', '#777777'), 1);
+});
+
+test('the default design reads back with no issues', async () => {
+  const report = await checkScannability(LINK, parseDesign({}));
+  assert.equal(report.scannable, true);
+  assert.equal(report.decoded, LINK);
+  assert.equal(report.inverted, false);
+  assert.deepEqual(report.issues, []);
+});
+
+test('a pale foreground is refused for low contrast', async () => {
+  const report = await checkScannability(LINK, parseDesign({ fg: '#d0d0d0', bg: '#ffffff' }));
+  assert.equal(report.scannable, false);
+  assert.ok(report.contrast < 3);
+  assert.ok(report.issues.some(i => i.code === 'low_contrast' && i.level === 'error'));
+});
+
+test('a light code on a dark background is reported as inverted', async () => {
+  const report = await checkScannability(LINK, parseDesign({ fg: '#ffffff', bg: '#000000' }));
+  assert.equal(report.inverted, true);
+  assert.ok(report.issues.some(i => i.code === 'inverted'));
+});
+
+test('a logo larger than the error correction can restore is refused', async () => {
+  const report = await checkScannability(LINK, parseDesign({ ec: 'L', logoUrl: 'data:image/png;base64,', logoSizePct: 40 }));
+  assert.equal(report.scannable, false);
+  assert.ok(report.logoCoverage > report.ecCapacity);
+  assert.ok(report.issues.some(i => i.code === 'logo_too_large' && i.level === 'error'));
+});
@@ -0,0 +1,129 @@
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+import sharp from 'sharp';
+import { ecMap, logoKnockout, renderQr } from './qrImage';
+import type { ErrorCorrection, QrDesign } from './qrImage';
+
+// Checks a design the way a phone would see it: the code is rendered with its real design and
+// read back with a pure-JS decoder, next to the static checks that explain why a read fails.
+
+export type ScanIssue = {
+  level: 'error' | 'warning';
+  code: 'unreadable' | 'wrong_content' | 'low_contrast' | 'inverted' | 'logo_too_large';
+  message: string;
+};
+
+export type ScanReport = {
+  scannable: boolean;   // no error-level issue
+  decoded: string | null;
+  expected: string;
+  contrast: number;     // weakest foreground/background contrast ratio (1-21)
+  inverted: boolean;    // light code on a dark background
+  logoCoverage: number; // share of the symbol hidden behind the logo (0-1)
+  ecCapacity: number;   // share of codewords the error-correction level can restore
+  issues: ScanIssue[];
+};
+
+const EC_CAPACITY: Record<ErrorCorrection, number> = { L: 0.07, M: 0.15, Q: 0.25, H: 0.3 };
+const MIN_CONTRAST = 3;
+const GOOD_CONTRAST = 4.5;
+const CHECK_SIZE = 480;
+const MARGIN = 2; // the renderer's default quiet zone
+
+// WCAG relative luminance of #rgb / #rrggbb
+function luminance(hex: string) {
+  let h = hex.slice(1);
+  if (h.length === 3) h = h.split('').map(ch => ch + ch).join('');
+  const [r, g, b] = [0, 2, 4].map(i => {
+    const c = parseInt(h.slice(i, i + 2), 16) / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+export function contrastRatio(a: string, b: string) {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+}
+
+// Every color a dark module can have
+function foregroundColors(design: QrDesign) {
+  return [
+    design.fg,
+    design.gradientType !== 'none' ? design.gradientTo : null,
+    design.eyeOuterColor,
+    design.eyeInnerColor
+  ].filter((c): c is string => !!c);
+}
+
+// The sharp render first, then softer, smaller copies the way a phone camera sees a printed
+// code: styled modules (dots, diamonds) often only read once edges blur a little.
+const ATTEMPTS = [{ width: CHECK_SIZE, blur: 0 }, { width: 200, blur: 1.2 }, { width: 200, blur: 1.6 }];
+
+async function decode(content: string, design: QrDesign) {
+  const png = await renderQr(content, design, 'png', { size: CHECK_SIZE, margin: MARGIN });
+  for (const { width, blur } of ATTEMPTS) {
+    let img = sharp(png).flatten({ background: '#ffffff' }).resize(width);
+    if (blur) img = img.blur(blur);
+    const { data, info } = await img.ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    const result = jsQR(new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), info.width, info.height, { inversionAttempts: 'attemptBoth' });
+    if (result) return result.data;
+  }
+  return null;
+}
+
+export async function checkScannability(content: string, design: QrDesign): Promise<ScanReport> {
+  const issues: ScanIssue[] = [];
+
+  let decoded: string | null = null;
+  try { decoded = await decode(content, design); }
+  catch (e) { console.error('Scannability decode failed:', e); }
+  if (decoded === null) {
+    issues.push({ level: 'error', code: 'unreadable', message: 'The code could not be read back' });
+  } else if (decoded !== content) {
+    issues.push({ level: 'error', code: 'wrong_content', message: `The code reads as "${decoded}" instead of "${content}"` });
+  }
+
+  const colors = foregroundColors(design);
+  const contrast = Math.min(...colors.map(c => contrastRatio(c, design.bg)));
+  if (contrast < MIN_CONTRAST) {
+    issues.push({ level: 'error', code: 'low_contrast', message: `Contrast between code and background is too low (${contrast.toFixed(1)}:1, needs ${MIN_CONTRAST}:1)` });
+  } else if (contrast < GOOD_CONTRAST) {
+    issues.push({ level: 'warning', code: 'low_contrast', message: `Contrast is weak (${contrast.toFixed(1)}:1); ${GOOD_CONTRAST}:1 or more scans reliably` });
+  }
+
+  const bgLum = luminance(design.bg);
+  const inverted = colors.some(c => luminance(c) > bgLum);
+  if (inverted) {
+    issues.push({ level: 'warning', code: 'inverted', message: 'Light code on a dark background: some scanner apps cannot read inverted codes' });
+  }
+
+  let logoCoverage = 0;
+  const ecCapacity = EC_CAPACITY[design.ec];
+  if (design.logoUrl) {
+    const n = QRCode.create(content, { errorCorrectionLevel: ecMap[design.ec] }).modules.size;
+    const { kw } = logoKnockout(n + MARGIN * 2, design.logoSizePct);
+    logoCoverage = Math.min(1, (kw * kw) / (n * n));
+    const pct = (v: number) => `${Math.round(v * 100)}%`;
+    if (logoCoverage > ecCapacity) {
+      issues.push({ level: 'error', code: 'logo_too_large', message: `The logo hides ${pct(logoCoverage)} of the code but error correction ${design.ec} only restores ${pct(ecCapacity)}; shrink the logo or raise the level` });
+    } else if (logoCoverage > ecCapacity * 0.6) {
+      issues.push({ level: 'warning', code: 'logo_too_large', message: `The logo hides ${pct(logoCoverage)} of the code, close to what error correction ${design.ec} can restore (${pct(ecCapacity)})` });
+    }
+  }
+
+  return {
+    scannable: !issues.some(i => i.level === 'error'),
+    decoded,
+    expected: content,
+    contrast: Number(contrast.toFixed(2)),
+    inverted,
+    logoCoverage: Number(logoCoverage.toFixed(3)),
+    ecCapacity,
+    issues
+  };
+}
+
+export function scanMessages(report: ScanReport, level: ScanIssue['level']) {
+  return report.issues.filter(i => i.level === level).map(i => i.message).join('; ');
+}
@@ -0,0 +1,59 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { endActiveSchedules, scheduleStatus } from './schedules';
+import type { ScheduleRow } from './schedules';
+
+const at = (h: number) => new Date(Date.UTC(2026, 0, 1, h));
+
+// Just enough of a connection for endActiveSchedules: reads the rows, applies the EndsAt update
+function fakeConn(rows: ScheduleRow[]) {
+  return {
+    request() {
+      const inputs: Record<string, any> = {};
+      const req = {
+        input(name: string, _type: unknown, value: any) { inputs[name] = value; return req; },
+        async query(text: string) {
+          if (text.startsWith('UPDATE')) {
+            const ids: string[] = JSON.parse(inputs.ids);
+            for (const row of rows) if (ids.includes(row.Id as string)) row.EndsAt = inputs.now;
+          }
+          return { recordset: rows.map(row => ({ ...row })) };
+        }
+      };
+      return req;
+    }
+  } as any;
+}
+
+test('schedule status follows the window', () => {
+  const row = { StartsAt: at(10), EndsAt: at(12), CanceledAt: null };
+  assert.equal(scheduleStatus(row, at(9)), 'pending');
+  assert.equal(scheduleStatus(row, at(10)), 'active');
+  assert.equal(scheduleStatus(row, at(12)), 'ended');
+  assert.equal(scheduleStatus({ ...row, EndsAt: null }, at(100)), 'active');
+  assert.equal(scheduleStatus({ ...row, CanceledAt: at(11) }, at(11)), 'canceled');
+});
+
+test('a retarget after an open-ended schedule started ends that schedule', async () => {
+  const rows: ScheduleRow[] = [
+    { Id: 'open', StartsAt: at(8), EndsAt: null, CanceledAt: null },
+    { Id: 'window', StartsAt: at(9), EndsAt: at(20), CanceledAt: null },
+    { Id: 'later', StartsAt: at(15), EndsAt: null, CanceledAt: null },
+    { Id: 'past', StartsAt: at(1), EndsAt: at(2), CanceledAt: null },
+    { Id: 'canceled', StartsAt: at(1), EndsAt: null, CanceledAt: at(3) }
+  ];
+  const ended = await endActiveSchedules(fakeConn(rows), 'qr', at(10));
+
+  assert.deepEqual(ended.sort(), ['open', 'window']);
+  // Nothing overrides CurrentTargetId any more, until the pending schedule starts
+  assert.deepEqual(rows.filter(r => scheduleStatus(r, at(11)) === 'active'), []);
+  assert.equal(scheduleStatus(rows[2], at(16)), 'active');
+  assert.deepEqual(rows[3].EndsAt, at(2));
+  assert.equal(rows[4].EndsAt, null);
+});
+
+test('nothing is updated without an active schedule', async () => {
+  const rows: ScheduleRow[] = [{ Id: 'later', StartsAt: at(15), EndsAt: null, CanceledAt: null }];
+  assert.deepEqual(await endActiveSchedules(fakeConn(rows), 'qr', at(10)), []);
+  assert.equal(rows[0].EndsAt, null);
+});
@@ -0,0 +1,41 @@
+import sql from 'mssql';
+
+// Scheduled retargeting. While a schedule is active, scans go to its target instead of
+// QR_Code.CurrentTargetId (the latest start wins). A manual retarget or rollback ends the active
+// schedules, so an open-ended one can't keep overriding the version the user just picked.
+
+export type ScheduleRow = { Id?: string; StartsAt: Date; EndsAt: Date | null; CanceledAt: Date | null };
+export type ScheduleStatus = 'canceled' | 'pending' | 'ended' | 'active';
+
+export function scheduleStatus(row: ScheduleRow, now = new Date()): ScheduleStatus {
+  if (row.CanceledAt) return 'canceled';
+  if (row.StartsAt > now) return 'pending';
+  if (row.EndsAt && row.EndsAt <= now) return 'ended';
+  return 'active';
+}
+
+// Target scans of code q go to right now
+export const LIVE_TARGET_ID = `COALESCE((
+  SELECT TOP 1 s.Target_Id
+  FROM dbo.[QR_Target_Schedule] s
+  WHERE s.QR_Code_Id = q.Id AND s.CanceledAt IS NULL
+    AND s.StartsAt <= SYSUTCDATETIME()
+    AND (s.EndsAt IS NULL OR s.EndsAt > SYSUTCDATETIME())
+  ORDER BY s.StartsAt DESC
+), q.CurrentTargetId)`;
+
+// Ends (rather than cancels, so the history shows they ran) every schedule active at `now`.
+// Pending ones still start later. Returns the ids it ended.
+export async function endActiveSchedules(conn: sql.ConnectionPool | sql.Transaction, qrId: string, now = new Date()): Promise<string[]> {
+  const r = await conn.request()
+    .input('qid', sql.UniqueIdentifier, qrId)
+    .query('SELECT Id, StartsAt, EndsAt, CanceledAt FROM dbo.[QR_Target_Schedule] WITH (UPDLOCK) WHERE QR_Code_Id=@qid;');
+  const ids = (r.recordset as ScheduleRow[]).filter(row => scheduleStatus(row, now) === 'active').map(row => row.Id as string);
+  if (ids.length) {
+    await conn.request()
+      .input('ids', sql.NVarChar(sql.MAX), JSON.stringify(ids))
+      .input('now', sql.DateTime2, now)
+      .query('UPDATE dbo.[QR_Target_Schedule] SET EndsAt=@now WHERE Id IN (SELECT CAST(value AS UNIQUEIDENTIFIER) FROM OPENJSON(@ids));');
+  }
+  return ids;
+}
@@ -0,0 +1,24 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { env } from '../config';
+import { shortenerScreener } from './screening';
+
+const screen = shortenerScreener(['bit.ly'], async host => host === 'go.brand.com');
+
+test('short links on our own host are flagged', async () => {
+  const own = new URL(env.PUBLIC_BASE_URL).host;
+  assert.equal((await screen(new URL(`http://${own}/r/abc`)))?.reason, 'shortener');
+});
+
+test('short links on a verified custom domain are flagged', async () => {
+  assert.deepEqual(await screen(new URL('https://GO.brand.com/r/spring')), { reason: 'shortener', detail: 'go.brand.com' });
+});
+
+test('other pages on a custom domain and unrelated hosts pass', async () => {
+  assert.equal(await screen(new URL('https://go.brand.com/about')), null);
+  assert.equal(await screen(new URL('https://other.example/r/spring')), null);
+});
+
+test('listed shorteners are flagged on any path', async () => {
+  assert.equal((await screen(new URL('https://www.bit.ly/xyz')))?.detail, 'bit.ly');
+});
@@ -0,0 +1,253 @@
+import { createHash } from 'crypto';
+import { promises as dns } from 'dns';
+import { promises as fs } from 'fs';
+import net from 'net';
+import sql from 'mssql';
+import { env } from '../config';
+import { getPool } from '../db';
+
+export type FlagReason = 'blocked_domain' | 'not_allowed' | 'threat' | 'private_address' | 'shortener';
+export type ScreenVerdict = { reason: FlagReason; detail: string };
+
+// One screening step. Returns a verdict to flag the URL, or null to let the next step look at it.
+export type Screener = (url: URL) => Promise<ScreenVerdict | null>;
+
+// Host name -> addresses. Swappable so tests don't depend on real DNS.
+export type Resolver = (host: string) => Promise<string[]>;
+
+// Host name -> whether /r/ links on it are ours (a verified custom domain). Swappable for tests.
+export type OwnHostLookup = (host: string) => Promise<boolean>;
+
+export const dnsResolver: Resolver = async host =>
+  (await dns.lookup(host, { all: true })).map(a => a.address);
+
+const FLAG_MESSAGES: Record<FlagReason, string> = {
+  blocked_domain: 'This domain is blocked',
+  not_allowed: 'This domain is not on the list of allowed destinations',
+  threat: 'This address is on a list of known malicious sites',
+  private_address: 'Private and local network addresses are not allowed',
+  shortener: 'Links to other URL shorteners are not allowed'
+};
+
+export function flagMessage(reason: string) {
+  return FLAG_MESSAGES[reason as FlagReason] || 'This destination was flagged';
+}
+
+function domainList(raw: string) {
+  return raw.split(',').map(d => d.trim().toLowerCase().replace(/^\*?\./, '')).filter(Boolean);
+}
+
+function hostOf(url: URL) {
+  return url.hostname.toLowerCase().replace(/\.$/, '').replace(/^\[|\]$/g, '');
+}
+
+function matchesDomain(host: string, domains: string[]) {
+  return domains.find(d => host === d || host.endsWith(`.${d}`)) || null;
+}
+
+// ---------- Domain block/allow lists ----------
+export function domainListScreener(blocklist = domainList(env.URL_BLOCKLIST), allowlist = domainList(env.URL_ALLOWLIST)): Screener {
+  return async url => {
+    const host = hostOf(url);
+    const blocked = matchesDomain(host, blocklist);
+    if (blocked) return { reason: 'blocked_domain', detail: blocked };
+    if (allowlist.length && !matchesDomain(host, allowlist)) return { reason: 'not_allowed', detail: host };
+    return null;
+  };
+}
+
+// ---------- URL shorteners (including our own short links) ----------
+export const verifiedDomainLookup: OwnHostLookup = async host => {
+  const pool = await getPool();
+  const r = await pool.request()
+    .input('host', sql.NVarChar(253), host)
+    .query('SELECT TOP 1 Id FROM dbo.[QR_Domain] WHERE Host=@host AND VerifiedAt IS NOT NULL;');
+  return r.recordset.length > 0;
+};
+
+// Short links on PUBLIC_BASE_URL or any verified custom domain would chain (or loop) redirects
+export function shortenerScreener(shorteners = domainList(env.URL_SHORTENERS), isOwnHost: OwnHostLookup = verifiedDomainLookup): Screener {
+  const own = new URL(env.PUBLIC_BASE_URL).hostname.toLowerCase();
+  return async url => {
+    const host = hostOf(url);
+    if (url.pathname.startsWith('/r/') && (host === own || await isOwnHost(host))) return { reason: 'shortener', detail: host };
+    const hit = matchesDomain(host, shorteners);
+    return hit ? { reason: 'shortener', detail: hit } : null;
+  };
+}
+
+// ---------- Private / loopback / link-local addresses ----------
+const PRIVATE = new net.BlockList();
+PRIVATE.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE.addSubnet('224.0.0.0', 3, 'ipv4');
+PRIVATE.addAddress('::', 'ipv6');
+PRIVATE.addAddress('::1', 'ipv6');
+PRIVATE.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE.addSubnet('ff00::', 8, 'ipv6');
+
+export function isPrivateAddress(address: string) {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) address = mapped[1];
+  const family = net.isIP(address);
+  if (!family) return false;
+  return PRIVATE.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+export function privateAddressScreener(resolve: Resolver = dnsResolver): Screener {
+  return async url => {
+    const host = hostOf(url);
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+      return { reason: 'private_address', detail: host };
+    }
+    let addresses: string[];
+    if (net.isIP(host)) addresses = [host];
+    else {
+      // Unresolvable hosts aren't a screening problem; the link health check reports them
+      try { addresses = await resolve(host); }
+      catch { return null; }
+    }
+    const hit = addresses.find(isPrivateAddress);
+    if (!hit) return null;
+    return { reason: 'private_address', detail: hit === host ? host : `${host} resolves to ${hit}` };
+  };
+}
+
+// ---------- Local threat list (Safe Browsing hash-prefix format) ----------
+// The file holds hex SHA-256 prefixes (4-32 bytes) of canonical "host/path" expressions, one per
+// line, # for comments. A URL matches when the hash of any of its expressions starts with one.
+
+// Host suffixes and path prefixes a URL is looked up under, as the Safe Browsing spec lists them:
+// the exact host plus up to four suffixes built from the last five components, and the exact
+// path (with and without query) plus up to four leading directory prefixes.
+export function urlExpressions(url: URL): string[] {
+  const host = hostOf(url);
+  const hosts = [host];
+  if (!net.isIP(host)) {
+    const parts = host.split('.');
+    for (let i = Math.max(1, parts.length - 5); i <= parts.length - 2 && hosts.length < 5; i++) {
+      hosts.push(parts.slice(i).join('.'));
+    }
+  }
+
+  const path = url.pathname || '/';
+  const paths = new Set<string>();
+  if (url.search) paths.add(path + url.search);
+  paths.add(path);
+  const dirs = path.split('/').slice(1, -1);
+  paths.add('/');
+  for (let i = 1; i <= dirs.length && i < 4; i++) paths.add(`/${dirs.slice(0, i).join('/')}/`);
+
+  return Array.from(new Set(hosts)).flatMap(h => Array.from(paths).map(p => h + p));
+}
+
+export function expressionHash(expression: string) {
+  return createHash('sha256').update(expression).digest('hex');
+}
+
+export function parseThreatList(text: string) {
+  const prefixes = new Set<string>();
+  for (const line of text.split(/\r?\n/)) {
+    const hex = line.replace(/#.*/, '').trim().toLowerCase();
+    if (/^[0-9a-f]{8,64}$/.test(hex) && hex.length % 2 === 0) prefixes.add(hex);
+  }
+  return prefixes;
+}
+
+// Reloaded whenever the file changes, so the list can be refreshed without a restart
+let threatCache: { file: string; mtimeMs: number; prefixes: Set<string>; lengths: number[] } | null = null;
+
+async function loadThreatList(file: string) {
+  const stat = await fs.stat(file);
+  if (!threatCache || threatCache.file !== file || threatCache.mtimeMs !== stat.mtimeMs) {
+    const prefixes = parseThreatList(await fs.readFile(file, 'utf8'));
+    threatCache = { file, mtimeMs: stat.mtimeMs, prefixes, lengths: Array.from(new Set(Array.from(prefixes, p => p.length))) };
+  }
+  return threatCache;
+}
+
+export function threatListScreener(file = env.URL_THREAT_LIST_FILE): Screener {
+  return async url => {
+    if (!file) return null;
+    let list;
+    try { list = await loadThreatList(file); }
+    catch (e) { console.error('Loading threat list failed:', e); return null; }
+    for (const expression of urlExpressions(url)) {
+      const hash = expressionHash(expression);
+      if (list.lengths.some(n => list.prefixes.has(hash.slice(0, n)))) {
+        return { reason: 'threat', detail: expression };
+      }
+    }
+    return null;
+  };
+}
+
+// Cheap, local checks run first; the DNS lookup last
+export function defaultScreeners(resolve: Resolver = dnsResolver): Screener[] {
+  return [domainListScreener(), shortenerScreener(), threatListScreener(), privateAddressScreener(resolve)];
+}
+
+let screeners: Screener[] = defaultScreeners();
+
+// Replace the screening pipeline, e.g. to add a remote reputation API or a stub resolver
+export function setScreeners(list: Screener[]) {
+  screeners = list;
+}
+
+export async function screenUrl(raw: string): Promise<ScreenVerdict | null> {
+  let url: URL;
+  try { url = new URL(raw); } catch { return null; }
+  for (const screen of screeners) {
+    const verdict = await screen(url);
+    if (verdict) return verdict;
+  }
+  return null;
+}
+
+// First verdict among several URLs, e.g. every link on a hosted page
+export async function screenAll(urls: string[]): Promise<ScreenVerdict | null> {
+  for (const url of urls) {
+    const verdict = await screenUrl(url);
+    if (verdict) return verdict;
+  }
+  return null;
+}
+
+// URLs from configuration have no row to keep a verdict on: screened on first use and again once
+// the verdict is older than URL_SCREEN_INTERVAL_HOURS
+const configVerdicts = new Map<string, { verdict: ScreenVerdict | null; at: number }>();
+
+export async function screenConfigUrl(url: string) {
+  const cached = configVerdicts.get(url);
+  if (cached && Date.now() - cached.at < env.URL_SCREEN_INTERVAL_HOURS * 3600 * 1000) return cached.verdict;
+  const verdict = await screenUrl(url);
+  configVerdicts.set(url, { verdict, at: Date.now() });
+  return verdict;
+}
+
+// For create/retarget paths: throws a user-facing error for a flagged destination
+export async function assertSafeUrl(url: string) {
+  const verdict = await screenUrl(url);
+  if (verdict) throw new Error(`Destination not allowed: ${flagMessage(verdict.reason)}`);
+  return url;
+}
+
+// Same for a hosted page: every off-site link, image and PDF on it
+export async function assertSafeUrls(urls: string[]) {
+  for (const url of urls) await assertSafeUrl(url);
+}
+
+// Stores the verdict on a target; /r/:slug reads it to decide on the warning page
+export async function recordScreening(conn: sql.ConnectionPool | sql.Transaction, targetId: string, verdict: ScreenVerdict | null) {
+  await conn.request()
+    .input('id', sql.UniqueIdentifier, targetId)
+    .input('reason', sql.NVarChar(200), verdict?.reason ?? null)
+    .input('detail', sql.NVarChar(500), verdict ? verdict.detail.slice(0, 500) : null)
+    .query('UPDATE dbo.[QR_Target] SET FlagReason=@reason, FlagDetail=@detail, ScreenedAt=SYSUTCDATETIME() WHERE Id=@id;');
+}
@@ -0,0 +1,25 @@
+// Abramowitz-Stegun 7.1.26 approximation, good to ~1e-7
+function erf(x: number) {
+  const sign = x < 0 ? -1 : 1;
+  const ax = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * ax);
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-ax * ax);
+  return sign * y;
+}
+
+export function normalCdf(z: number) {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+// Two-sided two-proportion z-test of variant B's conversion rate against A's
+export function twoProportionTest(convA: number, totalA: number, convB: number, totalB: number) {
+  if (totalA === 0 || totalB === 0) return { z: null, pValue: null };
+  const pA = convA / totalA;
+  const pB = convB / totalB;
+  const pooled = (convA + convB) / (totalA + totalB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  // No test when the pooled rate is 0 or 1, or conversions exceed their totals
+  if (!(se > 0)) return { z: null, pValue: null };
+  const z = (pB - pA) / se;
+  return { z, pValue: 2 * (1 - normalCdf(Math.abs(z))) };
+}
@@ -0,0 +1,183 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { DeleteObjectCommand, GetObjectCommand, HeadObjectCommand, ListObjectsV2Command, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { env } from '../config';
+
+// Blob storage for logos, cached renders and exports. Keys are slash-separated paths such as
+// "assets/<hash>". The local driver keeps files under STORAGE_DIR (one instance, or several
+// sharing a volume); the S3 driver works with AWS S3 or any compatible server such as MinIO.
+// Objects are private: browsers get them through the app or through expiring signed URLs.
+
+export type BlobInfo = { key: string; size: number; modified: Date };
+export type PutOptions = { contentType?: string };
+export type SignedUrlOptions = { expiresIn?: number; fileName?: string }; // seconds (default SIGNED_URL_TTL_MIN)
+
+export type BlobStorage = {
+  put(key: string, data: Buffer, opts?: PutOptions): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  stat(key: string): Promise<BlobInfo | null>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<BlobInfo[]>;
+  signedUrl(key: string, opts?: SignedUrlOptions): Promise<string>;
+};
+
+// Export files offered through signed links, kept for EXPORT_TTL_HOURS
+export const EXPORT_PREFIX = 'exports/';
+
+const KEY = /^[A-Za-z0-9][A-Za-z0-9._-]*(\/[A-Za-z0-9][A-Za-z0-9._-]*)*$/;
+
+function assertKey(key: string) {
+  if (!KEY.test(key) || key.split('/').includes('..')) throw new Error(`Invalid storage key: ${key}`);
+}
+
+function expirySeconds(opts?: SignedUrlOptions) {
+  return opts?.expiresIn ?? env.SIGNED_URL_TTL_MIN * 60;
+}
+
+// ---------- Local filesystem ----------
+
+// Signature of a /files link: the key, its expiry (unix seconds) and the download name
+function fileSignature(key: string, expires: number, name: string) {
+  return crypto.createHmac('sha256', env.JWT_SECRET).update(`${key}\n${expires}\n${name}`).digest('base64url');
+}
+
+export function verifyFileSignature(key: string, expires: number, name: string, sig: string) {
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+  const expected = Buffer.from(fileSignature(key, expires, name));
+  const given = Buffer.from(String(sig));
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+export function localStorage(root: string): BlobStorage {
+  const file = (key: string) => {
+    assertKey(key);
+    return path.join(root, ...key.split('/'));
+  };
+  const info = async (key: string, abs: string): Promise<BlobInfo | null> => {
+    const stat = await fs.stat(abs).catch(() => null);
+    return stat?.isFile() ? { key, size: stat.size, modified: stat.mtime } : null;
+  };
+
+  return {
+    async put(key, data) {
+      const abs = file(key);
+      await fs.mkdir(path.dirname(abs), { recursive: true });
+      // Readers never see a half-written file
+      const tmp = `${abs}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tmp, data);
+      await fs.rename(tmp, abs);
+    },
+    async get(key) {
+      return fs.readFile(file(key)).catch((e: any) => {
+        if (e.code === 'ENOENT') return null;
+        throw e;
+      });
+    },
+    stat(key) {
+      return info(key, file(key));
+    },
+    async delete(key) {
+      await fs.rm(file(key), { force: true });
+    },
+    async list(prefix) {
+      const dir = path.join(root, ...prefix.split('/').filter(Boolean));
+      const entries = await fs.readdir(dir, { recursive: true }).catch(() => [] as string[]);
+      const blobs = await Promise.all(entries.map(rel => {
+        const key = [...prefix.split('/').filter(Boolean), ...rel.split(path.sep)].join('/');
+        return info(key, path.join(dir, rel));
+      }));
+      return blobs.filter((b): b is BlobInfo => !!b);
+    },
+    async signedUrl(key, opts) {
+      assertKey(key);
+      const expires = Math.floor(Date.now() / 1000) + expirySeconds(opts);
+      const name = opts?.fileName || '';
+      const qs = new URLSearchParams({ expires: String(expires), ...(name ? { name } : {}), sig: fileSignature(key, expires, name) });
+      return `${env.PUBLIC_BASE_URL}/files/${key}?${qs}`;
+    }
+  };
+}
+
+// ---------- S3-compatible ----------
+
+function s3Client(endpoint?: string) {
+  return new S3Client({
+    region: env.S3_REGION,
+    endpoint,
+    forcePathStyle: env.S3_FORCE_PATH_STYLE, // MinIO and most self-hosted servers
+    credentials: env.S3_ACCESS_KEY_ID && env.S3_SECRET_ACCESS_KEY
+      ? { accessKeyId: env.S3_ACCESS_KEY_ID, secretAccessKey: env.S3_SECRET_ACCESS_KEY }
+      : undefined // default AWS credential chain (instance role, env, profile)
+  });
+}
+
+function notFound(e: any) {
+  return e?.name === 'NoSuchKey' || e?.name === 'NotFound' || e?.$metadata?.httpStatusCode === 404;
+}
+
+export function s3Storage(bucket: string): BlobStorage {
+  const client = s3Client(env.S3_ENDPOINT);
+  // Signed links must name the host browsers reach, which can differ from the one the app uses
+  const signer = env.S3_PUBLIC_ENDPOINT ? s3Client(env.S3_PUBLIC_ENDPOINT) : client;
+
+  return {
+    async put(key, data, opts) {
+      assertKey(key);
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: data, ContentType: opts?.contentType }));
+    },
+    async get(key) {
+      assertKey(key);
+      try {
+        const r = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+        return r.Body ? Buffer.from(await r.Body.transformToByteArray()) : null;
+      } catch (e) {
+        if (notFound(e)) return null;
+        throw e;
+      }
+    },
+    async stat(key) {
+      assertKey(key);
+      try {
+        const r = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+        return { key, size: r.ContentLength ?? 0, modified: r.LastModified ?? new Date(0) };
+      } catch (e) {
+        if (notFound(e)) return null;
+        throw e;
+      }
+    },
+    async delete(key) {
+      assertKey(key);
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+    async list(prefix) {
+      const blobs: BlobInfo[] = [];
+      let token: string | undefined;
+      do {
+        const r = await client.send(new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix, ContinuationToken: token }));
+        for (const o of r.Contents || []) {
+          if (o.Key) blobs.push({ key: o.Key, size: o.Size ?? 0, modified: o.LastModified ?? new Date(0) });
+        }
+        token = r.IsTruncated ? r.NextContinuationToken : undefined;
+      } while (token);
+      return blobs;
+    },
+    signedUrl(key, opts) {
+      assertKey(key);
+      const disposition = opts?.fileName ? `attachment; filename="${opts.fileName.replace(/["\\]/g, '')}"` : undefined;
+      return getSignedUrl(signer, new GetObjectCommand({ Bucket: bucket, Key: key, ResponseContentDisposition: disposition }), { expiresIn: expirySeconds(opts) });
+    }
+  };
+}
+
+// ---------- Configured backend ----------
+
+let storage: BlobStorage | null = null;
+
+export function getStorage(): BlobStorage {
+  if (!storage) {
+    storage = env.STORAGE_DRIVER === 's3' ? s3Storage(env.S3_BUCKET!) : localStorage(path.resolve(env.STORAGE_DIR));
+  }
+  return storage;
+}
@@ -0,0 +1,173 @@
+// Allowlist sanitizer for uploaded SVG logos. The markup is tokenized and written back out: only
+// drawing elements survive, references must point inside the document, and anything that can run
+// script or load another resource (script, foreignObject, event handlers, external hrefs, CSS
+// @import/url()) is dropped. Markup that doesn't tokenize as well-formed XML is rejected.
+
+const ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc', 'style',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'image',
+  'text', 'tspan', 'textPath',
+  'linearGradient', 'radialGradient', 'stop', 'pattern', 'clipPath', 'mask',
+  'filter', 'feBlend', 'feColorMatrix', 'feComponentTransfer', 'feComposite', 'feDropShadow', 'feFlood',
+  'feFuncA', 'feFuncB', 'feFuncG', 'feFuncR', 'feGaussianBlur', 'feMerge', 'feMergeNode', 'feMorphology', 'feOffset'
+]);
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const NAME = /^[A-Za-z_][-A-Za-z0-9_.:]*$/;
+const RASTER_DATA_URL = /^data:image\/(png|jpe?g|gif|webp);base64,[A-Za-z0-9+/=\s]+$/i;
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// Sticky tokens, matched at the current position
+const CLOSE_TAG = /<\/([^\s>]+)\s*>/y;
+const OPEN_TAG = /<([^\s/>]+)/y;
+const ATTRIBUTE = /\s*([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/y;
+const TAG_END = /\s*(\/?)>/y;
+
+function matchAt(re: RegExp, src: string, at: number) {
+  re.lastIndex = at;
+  return re.exec(src);
+}
+
+function decode(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);|&/gi, (m, ref: string | undefined) => {
+    if (!ref) throw new Error('Invalid SVG: stray "&"');
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      if (!code || code > 0x10ffff) throw new Error('Invalid SVG: bad character reference');
+      return String.fromCodePoint(code);
+    }
+    if (!(ref in ENTITIES)) throw new Error(`Invalid SVG: unknown entity &${ref};`);
+    return ENTITIES[ref];
+  });
+}
+
+function escape(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Only same-document url(#id) references stay; CSS that can load or run anything is dropped
+function sanitizeCss(css: string) {
+  const clean = css.replace(/\/\*[\s\S]*?\*\//g, '').replace(/@import[^;]*;?/gi, '');
+  if (/[\\]|@import|expression\s*\(|javascript:|-moz-binding|behavior\s*:/i.test(clean)) return '';
+  return localUrls(clean);
+}
+
+function localUrls(value: string) {
+  return value.replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (m, _q, target: string) => (target.trim().startsWith('#') ? m : 'none'));
+}
+
+function sanitizeAttr(element: string, name: string, value: string): string | null {
+  const lower = name.toLowerCase();
+  if (lower.startsWith('on') || lower === 'xml:base') return null;
+  // Any prefix can be bound to the xlink namespace, so every *:href is treated like xlink:href
+  if (lower === 'href' || lower.endsWith(':href')) {
+    const v = value.trim();
+    if (v.startsWith('#')) return v;
+    return element === 'image' && RASTER_DATA_URL.test(v) ? v.replace(/\s+/g, '') : null;
+  }
+  if (lower === 'style') return sanitizeCss(value) || null;
+  if (/javascript:|data:/i.test(value.replace(/\s+/g, ''))) return null;
+  return /url\(/i.test(value) ? localUrls(value) : value;
+}
+
+export function sanitizeSvg(markup: string): string {
+  const src = markup.replace(/^\uFEFF/, '');
+  const out: string[] = [];
+  const stack: { name: string; kept: boolean }[] = [];
+  let dropped = 0; // depth inside a removed element
+  let seenRoot = false;
+  let i = 0;
+
+  const skipPast = (token: string) => {
+    const end = src.indexOf(token, i);
+    if (end < 0) throw new Error('Invalid SVG: unterminated markup');
+    const body = src.slice(i, end);
+    i = end + token.length;
+    return body;
+  };
+
+  while (i < src.length) {
+    if (src[i] !== '<') {
+      const end = src.indexOf('<', i);
+      const text = src.slice(i, end < 0 ? src.length : end);
+      i = end < 0 ? src.length : end;
+      if (!stack.length) {
+        if (text.trim()) throw new Error('Invalid SVG: text outside the <svg> element');
+        continue;
+      }
+      if (!dropped) {
+        const decoded = decode(text);
+        out.push(escape(stack[stack.length - 1].name === 'style' ? sanitizeCss(decoded) : decoded));
+      }
+      continue;
+    }
+
+    if (src.startsWith('<!--', i)) { i += 4; skipPast('-->'); continue; }
+    if (src.startsWith('<?', i)) { i += 2; skipPast('?>'); continue; }
+    if (src.startsWith('<![CDATA[', i)) {
+      i += 9;
+      const text = skipPast(']]>');
+      if (stack.length && !dropped) out.push(escape(stack[stack.length - 1].name === 'style' ? sanitizeCss(text) : text));
+      continue;
+    }
+    if (src.startsWith('<!', i)) {
+      // DOCTYPE, internal subset included: entity declarations are never honoured
+      const close = src.indexOf('>', i);
+      const subset = src.indexOf('[', i);
+      i = subset >= 0 && subset < close ? src.indexOf(']', subset) : i;
+      if (i < 0) throw new Error('Invalid SVG: unterminated DOCTYPE');
+      skipPast('>');
+      continue;
+    }
+
+    if (src[i + 1] === '/') {
+      const m = matchAt(CLOSE_TAG, src, i);
+      const open = stack.pop();
+      if (!m || !open || open.name !== m[1]) throw new Error('Invalid SVG: mismatched closing tag');
+      i += m[0].length;
+      if (!open.kept) dropped--;
+      else if (!dropped) out.push(`</${open.name}>`);
+      continue;
+    }
+
+    // Start tag with its attributes
+    const nameMatch = matchAt(OPEN_TAG, src, i);
+    if (!nameMatch || !NAME.test(nameMatch[1])) throw new Error('Invalid SVG: malformed tag');
+    const name = nameMatch[1];
+    i += nameMatch[0].length;
+    const attrs: [string, string][] = [];
+    for (let a = matchAt(ATTRIBUTE, src, i); a; a = matchAt(ATTRIBUTE, src, i)) {
+      if (!NAME.test(a[1])) throw new Error('Invalid SVG: malformed attribute');
+      attrs.push([a[1], decode(a[3] ?? a[4])]);
+      i += a[0].length;
+    }
+    const end = matchAt(TAG_END, src, i);
+    if (!end) throw new Error('Invalid SVG: malformed tag');
+    i += end[0].length;
+    const selfClosing = end[1] === '/';
+
+    if (!seenRoot) {
+      if (name !== 'svg') throw new Error('Not an SVG image');
+      seenRoot = true;
+    } else if (!stack.length) {
+      throw new Error('Invalid SVG: content after the <svg> element');
+    }
+
+    const kept = !dropped && ELEMENTS.has(name);
+    if (kept) {
+      const safe = attrs
+        .map(([n, v]) => [n, sanitizeAttr(name, n, v)] as const)
+        .filter((a): a is readonly [string, string] => a[1] !== null);
+      if (stack.length === 0 && !safe.some(([n]) => n === 'xmlns')) safe.unshift(['xmlns', SVG_NS]);
+      out.push(`<${name}${safe.map(([n, v]) => ` ${n}="${escape(v)}"`).join('')}${selfClosing ? '/>' : '>'}`);
+    }
+    if (!selfClosing) {
+      stack.push({ name, kept });
+      if (!kept) dropped++;
+    }
+  }
+
+  if (!seenRoot) throw new Error('Not an SVG image');
+  if (stack.length) throw new Error('Invalid SVG: unclosed elements');
+  return out.join('');
+}
@@ -0,0 +1,86 @@
+import sql from 'mssql';
+import { isUuid } from './presets';
+
+export type Tag = { name: string; color: string };
+
+export const DEFAULT_TAG_COLOR = '#4ecdc4';
+export const TAG_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// Selected as "Tags" by code queries (alias q): the same [{name,color}] JSON the UI always
+// parsed, now with the tag id, so existing pages keep working.
+export const TAGS_JSON = `(
+  SELECT tg.Id AS id, tg.Name AS name, tg.Color AS color
+  FROM dbo.[QR_Code_Tag] ct
+  JOIN dbo.[QR_Tag] tg ON tg.Id = ct.Tag_Id
+  WHERE ct.QR_Code_Id = q.Id
+  ORDER BY tg.Name
+  FOR JSON PATH
+)`;
+
+// tagIds arrive as an array (JSON API) or a JSON string (form posts)
+export function parseTagIds(raw: unknown): string[] {
+  if (raw === undefined || raw === null || raw === '') return [];
+  const ids = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string' && isUuid(id))) {
+    throw new Error('tagIds must be a list of tag ids');
+  }
+  return Array.from(new Set(ids.map(id => id.toLowerCase())));
+}
+
+// Replaces the code's tags. Every id must be one of the user's tags.
+export async function setCodeTags(conn: sql.ConnectionPool | sql.Transaction, userId: string, qrId: string, tagIds: string[]) {
+  const r = await conn.request()
+    .input('uid', sql.UniqueIdentifier, userId)
+    .input('qid', sql.UniqueIdentifier, qrId)
+    .input('ids', sql.NVarChar(sql.MAX), JSON.stringify(tagIds))
+    .query(`
+      IF EXISTS (
+        SELECT 1 FROM OPENJSON(@ids) j
+        WHERE NOT EXISTS (SELECT 1 FROM dbo.[QR_Tag] t WHERE t.Id = TRY_CAST(j.value AS UNIQUEIDENTIFIER) AND t.User_Id = @uid)
+      )
+        SELECT CAST(0 AS BIT) AS ok;
+      ELSE
+      BEGIN
+        DELETE FROM dbo.[QR_Code_Tag] WHERE QR_Code_Id = @qid;
+        INSERT INTO dbo.[QR_Code_Tag] (QR_Code_Id, Tag_Id)
+        SELECT @qid, CAST(value AS UNIQUEIDENTIFIER) FROM OPENJSON(@ids);
+        SELECT CAST(1 AS BIT) AS ok;
+      END
+    `);
+  if (!r.recordset[0].ok) throw new Error('Unknown tag');
+}
+
+// Bulk import still names tags; reuse the user's tag of that name or create it
+export async function findOrCreateTags(conn: sql.ConnectionPool | sql.Transaction, userId: string, tags: Tag[]) {
+  const ids: string[] = [];
+  for (const tag of tags) {
+    const r = await conn.request()
+      .input('uid', sql.UniqueIdentifier, userId)
+      .input('name', sql.NVarChar(50), tag.name)
+      .input('color', sql.NVarChar(20), tag.color || DEFAULT_TAG_COLOR)
+      .query(`
+        SELECT TOP 1 Id FROM dbo.[QR_Tag] WHERE User_Id = @uid AND Name = @name;
+        IF @@ROWCOUNT = 0
+          INSERT INTO dbo.[QR_Tag] (User_Id, Name, Color) OUTPUT inserted.Id VALUES (@uid, @name, @color);
+      `);
+    const rs = (r.recordsets as any[]).find(set => set.length);
+    ids.push(rs[0].Id);
+  }
+  return Array.from(new Set(ids));
+}
+
+export function validateTags(tags: any[]): Tag[] {
+  // Validate each tag has required fields
+  for (const tag of tags) {
+    if (!tag.name || typeof tag.name !== 'string' || !tag.name.trim()) {
+      throw new Error('Each tag must have a valid name');
+    }
+    if (tag.name.trim().length > 50) {
+      throw new Error('Tag names must be at most 50 characters');
+    }
+    if (tag.color && (typeof tag.color !== 'string' || !TAG_COLOR.test(tag.color))) {
+      throw new Error('Each tag must have a valid color');
+    }
+  }
+  return tags.map(tag => ({ name: tag.name.trim(), color: tag.color || '' }));
+}
@@ -0,0 +1,77 @@
+import sql from 'mssql';
+import { z } from 'zod';
+import { screenAll, screenUrl } from './screening';
+import { PAGE_TYPE, pageUrls, parseLandingPage } from './landingPages';
+
+export type UtmInput = {
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+  utm_override?: boolean | string;
+};
+
+// Spread into the zod schemas of every endpoint that creates a target
+export const UtmFields = {
+  utm_source: z.string().trim().optional(),
+  utm_medium: z.string().trim().optional(),
+  utm_campaign: z.string().trim().optional(),
+  utm_term: z.string().trim().optional(),
+  utm_content: z.string().trim().optional(),
+  utm_override: z.boolean().optional()
+};
+
+// Form posts send checkboxes as 'on' / 'true' / '1'
+function flag(v: boolean | string | undefined) {
+  return v === true || ['on', 'true', '1'].includes(String(v || '').toLowerCase());
+}
+
+// Same JSON shape /qr/create and /qr/:slug/retarget store in QR_Target.UTM.
+// override: UTM values replace utm_* params already in the destination URL instead of yielding to them.
+export function utmJson(body: UtmInput) {
+  return JSON.stringify({
+    source: body.utm_source || null,
+    medium: body.utm_medium || null,
+    campaign: body.utm_campaign || null,
+    term: body.utm_term || null,
+    content: body.utm_content || null,
+    override: flag(body.utm_override)
+  });
+}
+
+// Screening verdict for a version: its URL, or everything a hosted page links to
+export async function screenTarget(t: { Url: string | null; PayloadType?: string | null; Payload?: string | null }) {
+  if (t.Url) return screenUrl(t.Url);
+  if (t.PayloadType === PAGE_TYPE && t.Payload) return screenAll(pageUrls(parseLandingPage(t.Payload)));
+  return null;
+}
+
+export async function nextTargetVersion(conn: sql.ConnectionPool | sql.Transaction, qrId: string) {
+  const verRes = await conn.request()
+    .input('qid', sql.UniqueIdentifier, qrId)
+    .query('SELECT ISNULL(MAX([Version]),0) AS v FROM dbo.[QR_Target] WHERE QR_Code_Id=@qid;');
+  return (verRes.recordset[0].v as number) + 1;
+}
+
+// Reuse an existing version with the same destination so scans stay grouped
+export async function findOrCreateTarget(tx: sql.Transaction, qrId: string, url: string, utm: string): Promise<string> {
+  const existing = await tx.request()
+    .input('qid', sql.UniqueIdentifier, qrId)
+    .input('url', sql.NVarChar(2048), url)
+    .input('utm', sql.NVarChar(sql.MAX), utm)
+    .query('SELECT TOP 1 Id FROM dbo.[QR_Target] WHERE QR_Code_Id=@qid AND Url=@url AND UTM=@utm ORDER BY [Version] DESC;');
+  if (existing.recordset.length) return existing.recordset[0].Id;
+
+  const trg = await tx.request()
+    .input('qid', sql.UniqueIdentifier, qrId)
+    .input('url', sql.NVarChar(2048), url)
+    .input('ver', sql.Int, await nextTargetVersion(tx, qrId))
+    .input('utm', sql.NVarChar(sql.MAX), utm)
+    .query(`
+      INSERT INTO dbo.[QR_Target] (QR_Code_Id, Url, [Version], UTM)
+      OUTPUT inserted.Id
+      VALUES (@qid, @url, @ver, @utm);
+    `);
+  return trg.recordset[0].Id;
+}
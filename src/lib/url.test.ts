@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildDestination, parseForwardParams } from './url';
+
+const utm = (fields: Record<string, unknown>) => JSON.stringify(fields);
+const params = (url: string) => Object.fromEntries(new URL(url).searchParams);
+
+test('UTM tags fill gaps but keep params already on the destination', () => {
+  const out = buildDestination('https://example.com/p?utm_source=print&x=1', utm({ source: 'qr', medium: 'poster', override: false }), {}, []);
+  assert.deepEqual(params(out), { utm_source: 'print', x: '1', utm_medium: 'poster' });
+});
+
+test('with override the UTM tags replace the destination params', () => {
+  const out = buildDestination('https://example.com/p?utm_source=print&x=1', utm({ source: 'qr', medium: 'poster', override: true }), {}, []);
+  assert.deepEqual(params(out), { utm_source: 'qr', x: '1', utm_medium: 'poster' });
+});
+
+test('allowlisted scan params win over both, others are dropped', () => {
+  const out = buildDestination(
+    'https://example.com/p?utm_source=print&gclid=old',
+    utm({ source: 'qr', override: true }),
+    { gclid: 'abc', utm_source: 'scan', ref_a: ['1', '2'], secret: 'x' },
+    ['gclid', 'ref_*']
+  );
+  const url = new URL(out);
+  assert.equal(url.searchParams.get('gclid'), 'abc');
+  assert.equal(url.searchParams.get('utm_source'), 'qr');
+  assert.deepEqual(url.searchParams.getAll('ref_a'), ['1', '2']);
+  assert.equal(url.searchParams.has('secret'), false);
+});
+
+test('nothing is forwarded without an allowlist', () => {
+  assert.equal(buildDestination('https://example.com/', null, { gclid: 'abc' }, []), 'https://example.com/');
+});
+
+test('forward params accept lists and form strings', () => {
+  assert.deepEqual(parseForwardParams('gclid, ref_*'), ['gclid', 'ref_*']);
+  assert.deepEqual(parseForwardParams(['fbclid']), ['fbclid']);
+  assert.equal(parseForwardParams(''), null);
+  assert.throws(() => parseForwardParams(['bad name']), /forwardParams/);
+});
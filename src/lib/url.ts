@@ -0,0 +1,60 @@
+import { env } from '../config';
+
+export function normalizeUrl(u: string) {
+  try {
+    const url = new URL(u);
+    if (!/^https?:$/i.test(url.protocol)) throw new Error('Only http/https allowed');
+    return url.toString();
+  } catch { throw new Error('Invalid URL'); }
+}
+
+// host is a verified custom domain; without one the link lives on PUBLIC_BASE_URL
+export function shortLink(slug: string, host?: string | null) {
+  if (host) return `${env.CUSTOM_DOMAIN_SCHEME}://${host}/r/${slug}`;
+  return `${env.PUBLIC_BASE_URL}/r/${slug}`;
+}
+
+const UTM_KEYS = ['source', 'medium', 'campaign', 'term', 'content'] as const;
+
+// Query params a scan may forward: plain names, or a prefix ending in * (e.g. "ref_*")
+export const FORWARD_PARAM = /^[A-Za-z0-9_.-]{1,64}\*?$/;
+
+// Forwarding allowlist from JSON (an array) or a form field ("gclid, ref_*"); null or empty turns it off
+export function parseForwardParams(raw: unknown): string[] | null {
+  if (raw === null || raw === undefined) return null;
+  const list = typeof raw === 'string' ? raw.split(/[\s,]+/).filter(Boolean) : raw;
+  if (!Array.isArray(list) || list.length > 50 || !list.every(p => typeof p === 'string' && FORWARD_PARAM.test(p))) {
+    throw new Error('forwardParams must be a list of parameter names (a trailing * matches a prefix)');
+  }
+  return list.length ? list : null;
+}
+
+function allowed(name: string, allowlist: string[]) {
+  return allowlist.some(a => a.endsWith('*') ? name.startsWith(a.slice(0, -1)) : a === name);
+}
+
+// Final redirect URL for a scan. Order of precedence, lowest first:
+//   1. params already on the destination URL
+//   2. the target's UTM tags (only fill gaps unless utm.override is set)
+//   3. allowlisted query params from the short link itself
+export function buildDestination(url: string, utmRaw: string | null, scanQuery: Record<string, unknown>, allowlist: string[]) {
+  let dest: URL;
+  try { dest = new URL(url); } catch { return url; }
+
+  let utm: any = {};
+  try { utm = utmRaw ? JSON.parse(utmRaw) : {}; } catch (e) { console.error('Error parsing UTM:', e); }
+  for (const key of UTM_KEYS) {
+    const value = utm[key];
+    if (!value) continue;
+    if (utm.override || !dest.searchParams.has(`utm_${key}`)) dest.searchParams.set(`utm_${key}`, String(value));
+  }
+
+  for (const [name, value] of Object.entries(scanQuery || {})) {
+    if (!allowed(name, allowlist)) continue;
+    const values = Array.isArray(value) ? value : [value];
+    dest.searchParams.delete(name);
+    for (const v of values) dest.searchParams.append(name, String(v ?? ''));
+  }
+
+  return dest.toString();
+}
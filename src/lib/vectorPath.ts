@@ -0,0 +1,44 @@
+// Path segments shared by the QR renderers (y down). SVG writes them as path data; PDF and
+// PostScript map them onto their moveto/lineto/curveto operators.
+export type Seg = ['M' | 'L', number, number] | ['C', number, number, number, number, number, number] | ['Z'];
+
+const K = 0.5523; // control-point distance for a quarter circle
+
+// Rectangle with per-corner radii [top-left, top-right, bottom-right, bottom-left]
+export function rect(x: number, y: number, w: number, h: number, [tl, tr, br, bl] = [0, 0, 0, 0]): Seg[] {
+  const segs: Seg[] = [['M', x + tl, y], ['L', x + w - tr, y]];
+  if (tr) segs.push(['C', x + w - tr + tr * K, y, x + w, y + tr - tr * K, x + w, y + tr]);
+  segs.push(['L', x + w, y + h - br]);
+  if (br) segs.push(['C', x + w, y + h - br + br * K, x + w - br + br * K, y + h, x + w - br, y + h]);
+  segs.push(['L', x + bl, y + h]);
+  if (bl) segs.push(['C', x + bl - bl * K, y + h, x, y + h - bl + bl * K, x, y + h - bl]);
+  segs.push(['L', x, y + tl]);
+  if (tl) segs.push(['C', x, y + tl - tl * K, x + tl - tl * K, y, x + tl, y]);
+  segs.push(['Z']);
+  return segs;
+}
+
+export function radii(r: number): [number, number, number, number] {
+  return [r, r, r, r];
+}
+
+export function circle(cx: number, cy: number, r: number): Seg[] {
+  const k = r * K;
+  return [
+    ['M', cx + r, cy],
+    ['C', cx + r, cy + k, cx + k, cy + r, cx, cy + r],
+    ['C', cx - k, cy + r, cx - r, cy + k, cx - r, cy],
+    ['C', cx - r, cy - k, cx - k, cy - r, cx, cy - r],
+    ['C', cx + k, cy - r, cx + r, cy - k, cx + r, cy],
+    ['Z']
+  ];
+}
+
+export function diamond(x: number, y: number, w: number): Seg[] {
+  const h = w / 2;
+  return polygon([[x + h, y], [x + w, y + h], [x + h, y + w], [x, y + h]]);
+}
+
+export function polygon(points: [number, number][]): Seg[] {
+  return [...points.map(([x, y], i): Seg => [i ? 'L' : 'M', x, y]), ['Z']];
+}
@@ -0,0 +1,54 @@
+import { FastifyInstance } from 'fastify';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+
+export default async function aliasRoutes(app: FastifyInstance) {
+  // ---------- List old slugs that still resolve to this code ----------
+  app.get('/api/qr/:slug/aliases', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const pool = await getPool();
+    const q = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .query('SELECT TOP 1 Id FROM dbo.[QR_Code] WHERE Slug=@slug AND User_Id=@uid AND DeletedAt IS NULL;');
+    if (!q.recordset.length) return reply.code(404).send({ error: 'QR code not found' });
+
+    const r = await pool.request()
+      .input('qid', SQL.UniqueIdentifier, q.recordset[0].Id)
+      .query(`
+        SELECT a.Slug, a.CreatedAt, d.Host AS DomainHost
+        FROM dbo.[QR_Slug_Alias] a
+        LEFT JOIN dbo.[QR_Domain] d ON d.Id = a.Domain_Id
+        WHERE a.QR_Code_Id = @qid
+        ORDER BY a.CreatedAt DESC
+      `);
+    reply.send(r.recordset);
+  });
+
+  // ---------- Remove an alias (old slug stops resolving and becomes free) ----------
+  app.post('/api/qr/:slug/aliases/:alias/delete', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug, alias } = req.params as any;
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .input('alias', SQL.NVarChar(64), alias)
+      .query(`
+        DELETE a FROM dbo.[QR_Slug_Alias] a
+        JOIN dbo.[QR_Code] q ON q.Id = a.QR_Code_Id
+        WHERE a.Slug = @alias AND q.Slug = @slug AND q.User_Id = @uid AND q.DeletedAt IS NULL
+      `);
+
+    if ((r.rowsAffected?.[0] || 0) === 0) return reply.code(404).send({ error: 'Alias not found' });
+    reply.send({ success: true });
+  });
+}
@@ -0,0 +1,65 @@
+import { FastifyInstance } from 'fastify';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { env } from '../config';
+import { TAGS_JSON } from '../lib/tags';
+
+export default async function archiveRoutes(app: FastifyInstance) {
+  // ---------- Archive / unarchive ----------
+  for (const [action, archived] of [['archive', 1], ['unarchive', 0]] as const) {
+    app.post(`/api/qr/:slug/${action}`, async (req, reply) => {
+      let user: AccessPayload;
+      try { user = getUserOrThrow(req); }
+      catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+      const { slug } = req.params as any;
+      const pool = await getPool();
+      const r = await pool.request()
+        .input('uid', SQL.UniqueIdentifier, user.sub)
+        .input('slug', SQL.NVarChar(64), slug)
+        .input('archived', SQL.Bit, archived)
+        .query('UPDATE dbo.[QR_Code] SET Archived=@archived WHERE Slug=@slug AND User_Id=@uid AND DeletedAt IS NULL;');
+
+      if ((r.rowsAffected?.[0] || 0) === 0) return reply.code(404).send({ error: 'QR code not found' });
+      reply.send({ success: true });
+    });
+  }
+
+  // ---------- Trash ----------
+  app.get('/api/my/trash', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('days', SQL.Int, env.TRASH_RETENTION_DAYS)
+      .query(`
+        SELECT q.Id, q.Name, q.Slug, ${TAGS_JSON} AS Tags, t.Url AS CurrentUrl, q.CreatedAt, q.DeletedAt,
+          DATEADD(day, @days, q.DeletedAt) AS PurgeAt
+        FROM dbo.[QR_Code] q
+        LEFT JOIN dbo.[QR_Target] t ON t.Id = q.CurrentTargetId
+        WHERE q.User_Id = @uid AND q.DeletedAt IS NOT NULL
+        ORDER BY q.DeletedAt DESC
+      `);
+    reply.send(r.recordset);
+  });
+
+  app.post('/api/qr/:slug/restore', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .query('UPDATE dbo.[QR_Code] SET DeletedAt=NULL WHERE Slug=@slug AND User_Id=@uid AND DeletedAt IS NOT NULL;');
+
+    if ((r.rowsAffected?.[0] || 0) === 0) return reply.code(404).send({ error: 'QR code not found in trash' });
+    reply.send({ success: true });
+  });
+}
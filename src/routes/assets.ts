@@ -0,0 +1,108 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { isUuid } from '../lib/presets';
+import { ASSET_COLUMNS, ASSET_CSP, ASSET_IN_USE, assetUrl, prepareAsset, readAsset, removeAssetFile, saveAsset } from '../lib/assets';
+
+function assetRow(row: any) {
+  const { Hash, ...rest } = row;
+  return { ...rest, Url: assetUrl(row.Id) };
+}
+
+export default async function assetRoutes(app: FastifyInstance) {
+  // ---------- Upload a logo into my library ----------
+  async function upload(req: FastifyRequest, reply: FastifyReply) {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    let name = '', buf: Buffer | null = null;
+    try {
+      for await (const part of req.parts()) {
+        if (part.type === 'file' && part.fieldname === 'file') {
+          name = part.filename || '';
+          buf = await part.toBuffer();
+          break;
+        }
+      }
+    } catch (e: any) {
+      if (e?.code === 'FST_REQ_FILE_TOO_LARGE') return reply.code(413).send({ error: 'File is too large' });
+      return reply.code(400).send({ error: 'Invalid upload' });
+    }
+    if (!buf) return reply.code(400).send({ error: 'No file' });
+
+    let asset;
+    try { asset = await prepareAsset(buf); }
+    catch (e: any) { return reply.code(400).send({ error: e.message }); }
+
+    const row = assetRow(await saveAsset(user.sub, name, asset));
+    // url is what designs store as logoUrl; dataUrl keeps older pickers working
+    reply.send({ ...row, url: row.Url, dataUrl: `data:${asset.mime};base64,${asset.data.toString('base64')}` });
+  }
+  app.post('/api/assets', upload);
+  app.post('/uploads', upload); // path used by earlier versions of the logo pickers
+
+  // ---------- List my assets (with how many codes and presets use each) ----------
+  app.get('/api/my/assets', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .query(`
+        SELECT ${ASSET_COLUMNS}, CASE WHEN ${ASSET_IN_USE} THEN 1 ELSE 0 END AS InUse
+        FROM dbo.[QR_Asset] a
+        WHERE a.User_Id = @uid
+        ORDER BY a.CreatedAt DESC
+      `);
+    reply.send(r.recordset.map(row => ({ ...assetRow(row), InUse: !!row.InUse })));
+  });
+
+  // ---------- Delete an asset (only once no design uses it) ----------
+  app.post('/api/assets/:id/delete', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { id } = req.params as any;
+    if (!isUuid(String(id))) return reply.code(404).send({ error: 'Asset not found' });
+
+    const pool = await getPool();
+    const a = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('id', SQL.UniqueIdentifier, id)
+      .query(`
+        SELECT TOP 1 a.Hash, CASE WHEN ${ASSET_IN_USE} THEN 1 ELSE 0 END AS InUse
+        FROM dbo.[QR_Asset] a
+        WHERE a.Id = @id AND a.User_Id = @uid
+      `);
+    if (!a.recordset.length) return reply.code(404).send({ error: 'Asset not found' });
+    if (a.recordset[0].InUse) {
+      return reply.code(409).send({ error: 'Codes, presets or landing pages still use this file. Change them first.' });
+    }
+
+    await pool.request()
+      .input('id', SQL.UniqueIdentifier, id)
+      .query('DELETE FROM dbo.[QR_Asset] WHERE Id=@id;');
+    await removeAssetFile(a.recordset[0].Hash);
+    reply.send({ success: true });
+  });
+
+  // ---------- Serve an asset ----------
+  // Public like the QR images that embed it; ids are unguessable and content never changes
+  app.get('/assets/:id', async (req, reply) => {
+    const { id } = req.params as any;
+    if (!isUuid(String(id))) return reply.code(404).send({ error: 'Asset not found' });
+    const asset = await readAsset(id);
+    if (!asset) return reply.code(404).send({ error: 'Asset not found' });
+    reply
+      .header('Content-Type', asset.mime)
+      .header('X-Content-Type-Options', 'nosniff')
+      .header('Content-Security-Policy', ASSET_CSP)
+      .header('Cache-Control', 'public, max-age=31536000, immutable')
+      .send(asset.data);
+  });
+}
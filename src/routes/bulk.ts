@@ -0,0 +1,278 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import crypto from 'node:crypto';
+import { z } from 'zod';
+import archiver from 'archiver';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { normalizeUrl, shortLink } from '../lib/url';
+import { assertSafeUrl } from '../lib/screening';
+import { DOMAIN_JOIN } from '../lib/domains';
+import { csvToObjects, escapeCsvValue } from '../lib/csv';
+import { designFromInput, generateSlug, insertQrCode, slugTaken, validateSlug } from '../lib/qrCodes';
+import { findOrCreateTags, validateTags } from '../lib/tags';
+import type { Tag } from '../lib/tags';
+import { OUTPUT_FORMATS, parseDesign } from '../lib/qrImage';
+import { renderQrCached } from '../lib/renderCache';
+import { EXPORT_PREFIX, getStorage } from '../lib/storage';
+import { env } from '../config';
+import { qrContent } from '../lib/payloads';
+import { EFFECTIVE_DESIGN, PRESET_JOIN } from '../lib/presets';
+import { AVERY_TEMPLATES, MAX_BLEED_MM, SHEET_LAYOUTS, renderSheet } from '../lib/labelSheet';
+
+const MAX_ROWS = 1000;
+
+// download: the file is the response; link: it is stored and the response carries a signed URL
+const Delivery = z.enum(['download', 'link'], { message: 'delivery must be download or link' }).default('download');
+
+const ExportZip = z.object({
+  slugs: z.array(z.string().trim().min(1)).min(1, { message: 'Pick at least one QR code' }).max(MAX_ROWS),
+  formats: z.array(z.enum(OUTPUT_FORMATS)).min(1).default(['svg', 'png']),
+  delivery: Delivery
+});
+
+// Codes are picked by slug (printed in that order) or by tag (by name)
+const ExportLabels = z.object({
+  slugs: z.array(z.string().trim().min(1)).max(MAX_ROWS).optional(),
+  tagId: z.uuid({ message: 'tagId must be a tag id' }).optional(),
+  layout: z.enum(SHEET_LAYOUTS, { message: `layout must be one of: ${SHEET_LAYOUTS.join(', ')}` }).default('grid'),
+  page: z.enum(['a4', 'letter']).default('a4'),
+  cols: z.number().int().min(1, { message: 'cols must be 1-8' }).max(8, { message: 'cols must be 1-8' }).default(3),
+  rows: z.number().int().min(1, { message: 'rows must be 1-8' }).max(8, { message: 'rows must be 1-8' }).default(4),
+  cropMarks: z.boolean().optional(),
+  bleedMm: z.number().min(0, { message: `bleedMm must be 0-${MAX_BLEED_MM}` }).max(MAX_BLEED_MM, { message: `bleedMm must be 0-${MAX_BLEED_MM}` }).optional(),
+  delivery: Delivery
+}).refine(d => d.slugs?.length || d.tagId, { message: 'Pick QR codes or a tag' });
+
+// Tags cell is either a JSON array of {name,color} or "Name:#color; Other". Names match the
+// user's existing tags; the color only matters when a new tag gets created.
+function parseTagsCell(cell: string): Tag[] | null {
+  if (!cell) return null;
+  const tags = cell.startsWith('[')
+    ? JSON.parse(cell)
+    : cell.split(/[;|]/).map(t => t.trim()).filter(Boolean).map(t => {
+        const idx = t.lastIndexOf(':');
+        return idx > 0 ? { name: t.slice(0, idx).trim(), color: t.slice(idx + 1).trim() } : { name: t, color: '' };
+      });
+  if (!Array.isArray(tags)) throw new Error('Tags must be a list');
+  return tags.length ? validateTags(tags) : null;
+}
+
+// Keeps an export in blob storage (removed after EXPORT_TTL_HOURS) and answers with a signed link
+async function sendExportLink(reply: FastifyReply, userId: string, fileName: string, data: Buffer, contentType: string) {
+  const storage = getStorage();
+  const key = `${EXPORT_PREFIX}${userId.toLowerCase()}/${crypto.randomUUID()}-${fileName}`;
+  await storage.put(key, data, { contentType });
+  const expiresIn = Math.min(env.SIGNED_URL_TTL_MIN * 60, env.EXPORT_TTL_HOURS * 3600);
+  reply.send({ url: await storage.signedUrl(key, { expiresIn, fileName }), expiresAt: new Date(Date.now() + expiresIn * 1000) });
+}
+
+// Renders every code into the archive one at a time, so large batches don't hold every image in memory
+async function fillZip(archive: archiver.Archiver, rows: any[], formats: (typeof OUTPUT_FORMATS[number])[]) {
+  const manifest = ['name,slug,short_url,destination,files'];
+  for (const row of rows) {
+    const design = parseDesign(row.Design);
+    const content = qrContent(row.Slug, row);
+    const files: string[] = [];
+    for (const format of formats) {
+      archive.append(await renderQrCached(content, design, format), { name: `${row.Slug}.${format}` });
+      files.push(`${row.Slug}.${format}`);
+    }
+    manifest.push([row.Name, row.Slug, shortLink(row.Slug, row.DomainHost), row.CurrentUrl, files.join(' ')].map(escapeCsvValue).join(','));
+  }
+  archive.append(manifest.join('\n') + '\n', { name: 'manifest.csv' });
+  await archive.finalize();
+}
+
+export default async function bulkRoutes(app: FastifyInstance) {
+  // ---------- Bulk create from CSV ----------
+  // Columns: name,url,slug,tags,utm_source,utm_medium,utm_campaign,utm_term,utm_content,fg,bg,ec,logoUrl,logoSizePct
+  app.post('/api/qr/bulk', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    let text: string;
+    try {
+      const file = await req.file({ limits: { fileSize: 2_000_000 } });
+      if (!file) return reply.code(400).send({ error: 'No file' });
+      text = (await file.toBuffer()).toString('utf8');
+    } catch (e: any) {
+      return reply.code(400).send({ error: e.message || 'Upload failed' });
+    }
+
+    const rows = csvToObjects(text);
+    if (!rows.length) return reply.code(400).send({ error: 'CSV has no rows' });
+    if (rows.length > MAX_ROWS) return reply.code(400).send({ error: `At most ${MAX_ROWS} rows per import` });
+
+    const pool = await getPool();
+    const seen = new Set<string>();
+    const results: { row: number; ok: boolean; slug?: string; error?: string }[] = [];
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      const rowNo = i + 2; // 1-based, after the header line
+      try {
+        const name = row.name || '';
+        if (!name) throw new Error('Name is required');
+        const url = await assertSafeUrl(normalizeUrl(row.url || ''));
+
+        let slug = row.slug || '';
+        if (!slug) {
+          do { slug = generateSlug(); } while (seen.has(slug.toLowerCase()) || await slugTaken(pool, slug, { userId: user.sub }));
+        } else {
+          validateSlug(slug);
+          if (seen.has(slug.toLowerCase())) throw new Error('Slug appears more than once in this file');
+          if (await slugTaken(pool, slug, { userId: user.sub })) throw new Error('Slug already exists. Please choose a different one.');
+        }
+
+        let tags: Tag[] | null;
+        try { tags = parseTagsCell(row.tags || ''); }
+        catch (e: any) { throw new Error(e instanceof SyntaxError ? 'Tags are not valid JSON' : e.message); }
+
+        const design = designFromInput({
+          fg: row.fg,
+          bg: row.bg,
+          ec: row.ec,
+          format: row.format,
+          logoUrl: row.logourl,
+          logoSizePct: row.logosizepct
+        });
+
+        const tagIds = tags ? await findOrCreateTags(pool, user.sub, tags) : [];
+
+        await insertQrCode(pool, {
+          userId: user.sub,
+          name,
+          slug,
+          url,
+          utm_source: row.utm_source,
+          utm_medium: row.utm_medium,
+          utm_campaign: row.utm_campaign,
+          utm_term: row.utm_term,
+          utm_content: row.utm_content,
+          design,
+          tagIds
+        });
+        seen.add(slug.toLowerCase());
+        results.push({ row: rowNo, ok: true, slug });
+      } catch (e: any) {
+        results.push({ row: rowNo, ok: false, error: e.message || 'Failed to create' });
+      }
+    }
+
+    const created = results.filter(r => r.ok).length;
+    reply.send({ created, failed: results.length - created, rows: results });
+  });
+
+  // ---------- Download rendered codes as a ZIP with a manifest ----------
+  app.post('/api/qr/export/zip', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const parsed = ExportZip.safeParse(req.body);
+    if (!parsed.success) {
+      const msg = parsed.error.issues.map(e => e.message).join(', ');
+      return reply.code(400).send({ error: msg });
+    }
+    const { slugs, formats, delivery } = parsed.data;
+
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slugs', SQL.NVarChar(SQL.MAX), JSON.stringify(slugs))
+      .query(`
+        SELECT q.Name, q.Slug, ${EFFECTIVE_DESIGN} AS Design, q.Static, t.Url AS CurrentUrl, t.PayloadType, t.Payload, d.Host AS DomainHost
+        FROM dbo.[QR_Code] q
+        LEFT JOIN dbo.[QR_Target] t ON t.Id = q.CurrentTargetId
+        ${PRESET_JOIN}
+        ${DOMAIN_JOIN}
+        WHERE q.User_Id = @uid AND q.DeletedAt IS NULL
+          AND q.Slug IN (SELECT value FROM OPENJSON(@slugs))
+        ORDER BY q.Name
+      `);
+    if (!r.recordset.length) return reply.code(404).send({ error: 'No matching QR codes' });
+
+    const fileName = `qr-codes-${Date.now()}.zip`;
+    const archive = archiver('zip', { zlib: { level: 9 } });
+
+    if (delivery === 'link') {
+      // The stored copy is assembled in memory (at most MAX_ROWS codes)
+      const chunks: Buffer[] = [];
+      archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+      const done = new Promise((resolve, reject) => { archive.on('end', resolve); archive.on('error', reject); });
+      // Promise.all keeps a handler on `done` when fillZip throws first
+      await Promise.all([done, fillZip(archive, r.recordset, formats).catch(err => { archive.abort(); throw err; })]);
+      return sendExportLink(reply, user.sub, fileName, Buffer.concat(chunks), 'application/zip');
+    }
+
+    reply
+      .header('Content-Type', 'application/zip')
+      .header('Content-Disposition', `attachment; filename="${fileName}"`)
+      .send(archive);
+
+    fillZip(archive, r.recordset, formats).catch(err => {
+      console.error('ZIP export failed:', err);
+      archive.abort();
+    });
+
+    return reply;
+  });
+
+  // ---------- Print-ready PDF of label sheets ----------
+  app.post('/api/qr/export/labels', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const parsed = ExportLabels.safeParse(req.body);
+    if (!parsed.success) {
+      const msg = parsed.error.issues.map(e => e.message).join(', ');
+      return reply.code(400).send({ error: msg });
+    }
+    const { slugs, tagId, layout, delivery, ...rest } = parsed.data;
+    // Avery labels come pre-cut; trimmed grids and pages get crop marks and a 3 mm bleed
+    const precut = !!AVERY_TEMPLATES[layout];
+
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slugs', SQL.NVarChar(SQL.MAX), slugs?.length ? JSON.stringify(slugs) : null)
+      .input('tag', SQL.UniqueIdentifier, tagId || null)
+      .query(`
+        SELECT q.Name, q.Slug, ${EFFECTIVE_DESIGN} AS Design, q.Static, t.PayloadType, t.Payload, d.Host AS DomainHost
+        FROM dbo.[QR_Code] q
+        LEFT JOIN dbo.[QR_Target] t ON t.Id = q.CurrentTargetId
+        ${PRESET_JOIN}
+        ${DOMAIN_JOIN}
+        WHERE q.User_Id = @uid AND q.DeletedAt IS NULL
+          AND (@slugs IS NULL OR q.Slug IN (SELECT value FROM OPENJSON(@slugs)))
+          AND (@tag IS NULL OR EXISTS (SELECT 1 FROM dbo.[QR_Code_Tag] ct WHERE ct.QR_Code_Id = q.Id AND ct.Tag_Id = @tag))
+        ORDER BY q.Name
+      `);
+    if (!r.recordset.length) return reply.code(404).send({ error: 'No matching QR codes' });
+    const rows = slugs?.length
+      ? [...r.recordset].sort((a, b) => slugs.indexOf(a.Slug) - slugs.indexOf(b.Slug))
+      : r.recordset;
+
+    const pdf = await renderSheet(rows.map(row => ({
+      name: row.Name,
+      slug: row.Slug,
+      shortUrl: row.Static ? null : shortLink(row.Slug, row.DomainHost),
+      content: qrContent(row.Slug, row),
+      design: parseDesign(row.Design)
+    })), {
+      ...rest,
+      layout,
+      cropMarks: rest.cropMarks ?? !precut,
+      bleedMm: rest.bleedMm ?? (precut ? 0 : 3)
+    });
+    const fileName = `qr-labels-${Date.now()}.pdf`;
+    if (delivery === 'link') return sendExportLink(reply, user.sub, fileName, pdf, 'application/pdf');
+    reply
+      .header('Content-Type', 'application/pdf')
+      .header('Content-Disposition', `attachment; filename="${fileName}"`)
+      .send(pdf);
+  });
+}
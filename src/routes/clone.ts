@@ -0,0 +1,89 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { cloneQrCode, generateSlug, slugTaken, validateSlug } from '../lib/qrCodes';
+
+const MAX_COPIES = 100;
+
+// {n} in name or slug is replaced with the copy number (start, start+1, ...)
+const CloneBody = z.object({
+  name: z.string().trim().max(200).optional(),
+  slug: z.string().trim().optional(),
+  count: z.coerce.number().int().min(1).max(MAX_COPIES, { message: `At most ${MAX_COPIES} copies at once` }).default(1),
+  start: z.coerce.number().int().min(0).default(1)
+});
+
+function fillPattern(pattern: string, n: number) {
+  return pattern.replace(/\{n\}/g, String(n));
+}
+
+export default async function cloneRoutes(app: FastifyInstance) {
+  // ---------- Duplicate a code (optionally N copies, e.g. name "Table {n}") ----------
+  app.post('/api/qr/:slug/clone', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const parsed = CloneBody.safeParse(req.body || {});
+    if (!parsed.success) {
+      return reply.code(400).send({ error: parsed.error.issues.map(e => e.message).join(', ') });
+    }
+    const { count, start } = parsed.data;
+    if (count > 1 && parsed.data.slug && !parsed.data.slug.includes('{n}')) {
+      return reply.code(400).send({ error: 'Use {n} in the slug when creating several copies' });
+    }
+
+    const pool = await getPool();
+    const src = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .query('SELECT TOP 1 Id, Name, Domain_Id FROM dbo.[QR_Code] WHERE Slug=@slug AND User_Id=@uid AND DeletedAt IS NULL;');
+    if (!src.recordset.length) return reply.code(404).send({ error: 'QR code not found' });
+    const source = src.recordset[0];
+
+    // Copies stay on the source's domain
+    const scope = { domainId: source.Domain_Id, userId: user.sub };
+    const namePattern = parsed.data.name || (count > 1 ? `${source.Name} {n}` : `${source.Name} (copy)`);
+
+    // Work out every name/slug first so a clash fails the whole batch before anything is written
+    const copies: { name: string; slug: string }[] = [];
+    const seen = new Set<string>();
+    for (let i = 0; i < count; i++) {
+      const n = start + i;
+      const name = fillPattern(namePattern, n);
+      if (!name || name.length > 200) return reply.code(400).send({ error: 'Name must be between 1 and 200 characters' });
+
+      let newSlug: string;
+      if (parsed.data.slug) {
+        newSlug = fillPattern(parsed.data.slug, n);
+        try { validateSlug(newSlug); }
+        catch (e: any) { return reply.code(400).send({ error: e.message }); }
+        if (seen.has(newSlug.toLowerCase()) || await slugTaken(pool, newSlug, scope)) {
+          return reply.code(409).send({ error: `Slug ${newSlug} already exists. Please choose a different one.` });
+        }
+      } else {
+        do { newSlug = generateSlug(); } while (seen.has(newSlug) || await slugTaken(pool, newSlug, scope));
+      }
+      seen.add(newSlug.toLowerCase());
+      copies.push({ name, slug: newSlug });
+    }
+
+    const tx = new SQL.Transaction(pool);
+    await tx.begin();
+    try {
+      for (const copy of copies) {
+        await cloneQrCode(tx, source.Id, copy.name, copy.slug);
+      }
+      await tx.commit();
+    } catch (e) {
+      await tx.rollback();
+      console.error('Cloning QR failed:', e);
+      return reply.code(500).send({ error: 'Failed to clone QR code' });
+    }
+
+    reply.code(201).send({ created: copies });
+  });
+}
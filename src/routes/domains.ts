@@ -0,0 +1,147 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { randomToken } from '../lib/crypto';
+import { isUuid } from '../lib/presets';
+import { checkDomainTxt, dnsTxtResolver, normalizeHost, verifyRecord } from '../lib/domains';
+import type { TxtResolver } from '../lib/domains';
+
+const AddDomain = z.object({ host: z.string().trim().min(1, { message: 'Domain is required' }) });
+
+function domainRow(row: any) {
+  const { VerifyToken, ...rest } = row;
+  return { ...rest, Verified: !!row.VerifiedAt, Record: verifyRecord(row.Host, VerifyToken) };
+}
+
+export default async function domainRoutes(app: FastifyInstance, opts: { resolveTxt?: TxtResolver } = {}) {
+  const resolveTxt = opts.resolveTxt || dnsTxtResolver;
+
+  // ---------- List my domains (with the TXT record each one needs) ----------
+  app.get('/api/my/domains', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .query(`
+        SELECT d.Id, d.Host, d.VerifyToken, d.VerifiedAt, d.CheckedAt, d.CreatedAt,
+          (SELECT COUNT(*) FROM dbo.[QR_Code] q WHERE q.Domain_Id = d.Id AND q.DeletedAt IS NULL) AS CodeCount
+        FROM dbo.[QR_Domain] d
+        WHERE d.User_Id = @uid
+        ORDER BY d.Host
+      `);
+    reply.send(r.recordset.map(domainRow));
+  });
+
+  // ---------- Add a domain (unverified until its TXT record is found) ----------
+  app.post('/api/domains', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const parsed = AddDomain.safeParse(req.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: parsed.error.issues.map(e => e.message).join(', ') });
+    }
+    let host: string;
+    try { host = normalizeHost(parsed.data.host); }
+    catch (e: any) { return reply.code(400).send({ error: e.message }); }
+
+    const pool = await getPool();
+    const taken = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('host', SQL.NVarChar(253), host)
+      .query('SELECT TOP 1 User_Id, VerifiedAt FROM dbo.[QR_Domain] WHERE Host=@host AND (User_Id=@uid OR VerifiedAt IS NOT NULL);');
+    if (taken.recordset.length) {
+      return reply.code(409).send({ error: 'This domain is already registered' });
+    }
+
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('host', SQL.NVarChar(253), host)
+      .input('token', SQL.NVarChar(64), randomToken(16))
+      .query(`
+        INSERT INTO dbo.[QR_Domain] (User_Id, Host, VerifyToken)
+        OUTPUT inserted.Id, inserted.Host, inserted.VerifyToken, inserted.VerifiedAt, inserted.CheckedAt, inserted.CreatedAt
+        VALUES (@uid, @host, @token);
+      `);
+    reply.code(201).send({ ...domainRow(r.recordset[0]), CodeCount: 0 });
+  });
+
+  // ---------- Look up the TXT record and mark the domain verified ----------
+  app.post('/api/domains/:id/verify', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { id } = req.params as any;
+    if (!isUuid(String(id))) return reply.code(404).send({ error: 'Domain not found' });
+
+    const pool = await getPool();
+    const d = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('id', SQL.UniqueIdentifier, id)
+      .query('SELECT TOP 1 Id, Host, VerifyToken, VerifiedAt FROM dbo.[QR_Domain] WHERE Id=@id AND User_Id=@uid;');
+    if (!d.recordset.length) return reply.code(404).send({ error: 'Domain not found' });
+    const domain = d.recordset[0];
+    if (domain.VerifiedAt) return reply.send({ success: true, verified: true });
+
+    const found = await checkDomainTxt(domain.Host, domain.VerifyToken, resolveTxt);
+    if (!found) {
+      await pool.request()
+        .input('id', SQL.UniqueIdentifier, id)
+        .query('UPDATE dbo.[QR_Domain] SET CheckedAt=SYSUTCDATETIME() WHERE Id=@id;');
+      const { name, value } = verifyRecord(domain.Host, domain.VerifyToken);
+      return reply.code(400).send({ error: `TXT record not found. Add ${name} with the value "${value}" and try again (DNS changes can take a while).` });
+    }
+
+    // Someone else may have proven the host in the meantime
+    const claimed = await pool.request()
+      .input('id', SQL.UniqueIdentifier, id)
+      .input('host', SQL.NVarChar(253), domain.Host)
+      .query('SELECT TOP 1 Id FROM dbo.[QR_Domain] WHERE Host=@host AND VerifiedAt IS NOT NULL AND Id<>@id;');
+    if (claimed.recordset.length) return reply.code(409).send({ error: 'This domain is already verified by another account' });
+
+    await pool.request()
+      .input('id', SQL.UniqueIdentifier, id)
+      .query('UPDATE dbo.[QR_Domain] SET VerifiedAt=SYSUTCDATETIME(), CheckedAt=SYSUTCDATETIME() WHERE Id=@id;');
+    reply.send({ success: true, verified: true });
+  });
+
+  // ---------- Remove a domain (only once no code or alias uses it) ----------
+  app.post('/api/domains/:id/delete', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { id } = req.params as any;
+    if (!isUuid(String(id))) return reply.code(404).send({ error: 'Domain not found' });
+
+    const pool = await getPool();
+    const d = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('id', SQL.UniqueIdentifier, id)
+      .query(`
+        SELECT TOP 1 d.Id,
+          CASE WHEN EXISTS (SELECT 1 FROM dbo.[QR_Code] WHERE Domain_Id = d.Id)
+                 OR EXISTS (SELECT 1 FROM dbo.[QR_Slug_Alias] WHERE Domain_Id = d.Id)
+               THEN 1 ELSE 0 END AS InUse
+        FROM dbo.[QR_Domain] d
+        WHERE d.Id = @id AND d.User_Id = @uid
+      `);
+    if (!d.recordset.length) return reply.code(404).send({ error: 'Domain not found' });
+    // Trashed codes count too: they can still be restored onto this domain
+    if (d.recordset[0].InUse) {
+      return reply.code(409).send({ error: 'Codes (or old links of codes) still use this domain. Move them first.' });
+    }
+
+    await pool.request()
+      .input('id', SQL.UniqueIdentifier, id)
+      .query('DELETE FROM dbo.[QR_Domain] WHERE Id=@id;');
+    reply.send({ success: true });
+  });
+}
@@ -0,0 +1,39 @@
+import { FastifyInstance } from 'fastify';
+import path from 'node:path';
+import { env } from '../config';
+import { getStorage, verifyFileSignature } from '../lib/storage';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.eps': 'application/postscript',
+  '.zip': 'application/zip'
+};
+
+export default async function fileRoutes(app: FastifyInstance) {
+  // ---------- Signed links to private objects (local storage driver) ----------
+  // With S3 the signed URLs point at the bucket itself and this route is not used
+  app.get('/files/*', async (req, reply) => {
+    if (env.STORAGE_DRIVER !== 'local') return reply.code(404).send({ error: 'Not found' });
+    const key = String((req.params as any)['*'] || '');
+    const { expires, name = '', sig = '' } = req.query as any;
+    if (!verifyFileSignature(key, Number(expires), String(name), String(sig))) {
+      return reply.code(403).send({ error: 'This link is invalid or has expired' });
+    }
+
+    const data = await getStorage().get(key).catch(() => null);
+    if (!data) return reply.code(404).send({ error: 'Not found' });
+
+    const fileName = String(name).replace(/["\\\r\n]/g, '');
+    reply
+      .header('Content-Type', CONTENT_TYPES[path.extname(fileName || key).toLowerCase()] || 'application/octet-stream')
+      .header('X-Content-Type-Options', 'nosniff')
+      .header('Cache-Control', 'private, no-store');
+    if (fileName) reply.header('Content-Disposition', `attachment; filename="${fileName}"`);
+    return reply.send(data);
+  });
+}
@@ -0,0 +1,83 @@
+import { FastifyInstance } from 'fastify';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { nextTargetVersion } from '../lib/targets';
+import { endActiveSchedules } from '../lib/schedules';
+import { PAGE_TYPE, pageUrls, parseLandingPage } from '../lib/landingPages';
+import { assertSafeUrls, recordScreening } from '../lib/screening';
+
+export default async function landingPageRoutes(app: FastifyInstance) {
+  // ---------- Current hosted page (latest page version if the code currently points elsewhere) ----------
+  app.get('/api/qr/:slug/page', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .input('ptype', SQL.NVarChar(20), PAGE_TYPE)
+      .query(`
+        SELECT TOP 1 t.Id, t.[Version], t.Payload, t.CreatedAt,
+          CAST(CASE WHEN t.Id = q.CurrentTargetId THEN 1 ELSE 0 END AS BIT) AS IsCurrent
+        FROM dbo.[QR_Code] q
+        JOIN dbo.[QR_Target] t ON t.QR_Code_Id = q.Id
+        WHERE q.Slug = @slug AND q.User_Id = @uid AND t.PayloadType = @ptype
+        ORDER BY CASE WHEN t.Id = q.CurrentTargetId THEN 0 ELSE 1 END, t.[Version] DESC
+      `);
+    if (!r.recordset.length) return reply.code(404).send({ error: 'No hosted page for this QR code' });
+
+    const { Payload, ...row } = r.recordset[0];
+    let page = null;
+    try { page = JSON.parse(Payload); } catch (e) { console.error('Error parsing page:', e); }
+    reply.send({ ...row, Page: page });
+  });
+
+  // ---------- Save hosted page as a new target version and make it current ----------
+  app.post('/api/qr/:slug/page', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    let page;
+    try { page = parseLandingPage((req.body as any)?.page ?? req.body); }
+    catch (e: any) { return reply.code(400).send({ error: e instanceof SyntaxError ? 'Invalid page' : e.message }); }
+
+    // Links on a page we host are screened like any other destination
+    try { await assertSafeUrls(pageUrls(page)); }
+    catch (e: any) { return reply.code(400).send({ error: e.message }); }
+
+    const pool = await getPool();
+    const q = await pool.request()
+      .input('slug', SQL.NVarChar(64), slug)
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .query('SELECT TOP 1 Id FROM dbo.[QR_Code] WHERE Slug=@slug AND User_Id=@uid AND DeletedAt IS NULL;');
+    if (!q.recordset.length) return reply.code(404).send({ error: 'QR code not found' });
+    const qrId = q.recordset[0].Id as string;
+
+    const nextVer = await nextTargetVersion(pool, qrId);
+    const trg = await pool.request()
+      .input('qid', SQL.UniqueIdentifier, qrId)
+      .input('ver', SQL.Int, nextVer)
+      .input('ptype', SQL.NVarChar(20), PAGE_TYPE)
+      .input('payload', SQL.NVarChar(SQL.MAX), JSON.stringify(page))
+      .query(`
+        INSERT INTO dbo.[QR_Target] (QR_Code_Id, Url, [Version], PayloadType, Payload)
+        OUTPUT inserted.Id
+        VALUES (@qid, NULL, @ver, @ptype, @payload);
+      `);
+
+    await recordScreening(pool, trg.recordset[0].Id, null);
+    await pool.request()
+      .input('tid', SQL.UniqueIdentifier, trg.recordset[0].Id)
+      .input('qid', SQL.UniqueIdentifier, qrId)
+      .query('UPDATE dbo.[QR_Code] SET CurrentTargetId=@tid, Static=0 WHERE Id=@qid;');
+    await endActiveSchedules(pool, qrId);
+
+    reply.send({ success: true, version: nextVer });
+  });
+}
@@ -0,0 +1,57 @@
+import { FastifyInstance } from 'fastify';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { httpClient, recordLinkCheck } from '../lib/linkCheck';
+import type { HttpClient } from '../lib/linkCheck';
+import { LIVE_TARGET_ID } from '../lib/schedules';
+
+export default async function linkHealthRoutes(app: FastifyInstance, opts: { client?: HttpClient } = {}) {
+  const client = opts.client || httpClient;
+
+  // ---------- Check the current destination now ----------
+  app.post('/api/qr/:slug/check', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const pool = await getPool();
+    const q = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .query(`
+        SELECT TOP 1 q.Id AS QR_Code_Id, t.Id AS Target_Id, t.Url
+        FROM dbo.[QR_Code] q
+        LEFT JOIN dbo.[QR_Target] t ON t.Id = ${LIVE_TARGET_ID}
+        WHERE q.Slug = @slug AND q.User_Id = @uid AND q.DeletedAt IS NULL
+      `);
+    if (!q.recordset.length) return reply.code(404).send({ error: 'QR code not found' });
+    if (!q.recordset[0].Url) return reply.code(400).send({ error: 'This QR code does not point at a URL' });
+
+    const result = await recordLinkCheck(pool, q.recordset[0], client);
+    reply.send({ url: q.recordset[0].Url, ...result });
+  });
+
+  // ---------- Check history ----------
+  app.get('/api/qr/:slug/checks', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .query(`
+        SELECT TOP 50 c.CheckedAt, c.Url, c.Ok, c.StatusCode, c.LatencyMs, c.FinalUrl, c.Redirects, c.Error, c.TlsError,
+          CAST(CASE WHEN c.Target_Id = ${LIVE_TARGET_ID} THEN 1 ELSE 0 END AS BIT) AS IsCurrent
+        FROM dbo.[QR_Link_Check] c
+        JOIN dbo.[QR_Code] q ON q.Id = c.QR_Code_Id
+        WHERE q.Slug = @slug AND q.User_Id = @uid
+        ORDER BY c.CheckedAt DESC
+      `);
+    reply.send(r.recordset);
+  });
+}
@@ -0,0 +1,113 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { normalizeUrl } from '../lib/url';
+import { assertSafeUrl } from '../lib/screening';
+import { hashPassword } from '../lib/crypto';
+import { isValidTimezone } from '../lib/policy';
+
+const HHMM = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'Active hours must be HH:MM' });
+
+const SavePolicy = z.object({
+  expiresAt: z.coerce.date({ message: 'Enter a valid expiry date' }).nullable().optional(),
+  maxScans: z.coerce.number().int().min(1, { message: 'Max scans must be at least 1' }).nullable().optional(),
+  activeStart: HHMM.nullable().optional(),
+  activeEnd: HHMM.nullable().optional(),
+  timezone: z.string().trim().refine(isValidTimezone, { message: 'Unknown timezone' }).nullable().optional(),
+  password: z.string().min(4, { message: 'Password must be at least 4 characters' }).optional(),
+  clearPassword: z.boolean().optional(),
+  fallbackUrl: z.string().trim().nullable().optional(),
+  fallbackMessage: z.string().trim().max(1000).nullable().optional()
+}).refine(p => !p.activeStart === !p.activeEnd, { message: 'Set both active hours or neither' });
+
+export default async function policyRoutes(app: FastifyInstance) {
+  // ---------- Get access policy ----------
+  app.get('/api/qr/:slug/policy', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .query(`
+        SELECT q.Id, p.ExpiresAt, p.MaxScans, p.ActiveStart, p.ActiveEnd, p.Timezone,
+          CAST(CASE WHEN p.Password_Hash IS NULL THEN 0 ELSE 1 END AS BIT) AS HasPassword,
+          p.FallbackUrl, p.FallbackMessage,
+          (SELECT COUNT(*) FROM dbo.[QR_Scan] s WHERE s.QR_Code_Id = q.Id AND s.Is_Prefetch = 0) AS ScanCount
+        FROM dbo.[QR_Code] q
+        LEFT JOIN dbo.[QR_Policy] p ON p.QR_Code_Id = q.Id
+        WHERE q.Slug = @slug AND q.User_Id = @uid
+      `);
+    if (!r.recordset.length) return reply.code(404).send({ error: 'QR code not found' });
+
+    const { Id, ...policy } = r.recordset[0];
+    reply.send(policy);
+  });
+
+  // ---------- Save access policy (omitted fields keep their value, null clears) ----------
+  app.post('/api/qr/:slug/policy', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const parsed = SavePolicy.safeParse(req.body);
+    if (!parsed.success) {
+      const msg = parsed.error.issues.map(e => e.message).join(', ');
+      return reply.code(400).send({ error: msg });
+    }
+    const body = parsed.data;
+
+    let fallbackUrl = body.fallbackUrl;
+    if (fallbackUrl) {
+      try { fallbackUrl = await assertSafeUrl(normalizeUrl(fallbackUrl)); }
+      catch (e: any) { return reply.code(400).send({ error: e.message }); }
+    }
+
+    const pool = await getPool();
+    const q = await pool.request()
+      .input('slug', SQL.NVarChar(64), slug)
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .query('SELECT TOP 1 Id FROM dbo.[QR_Code] WHERE Slug=@slug AND User_Id=@uid AND DeletedAt IS NULL;');
+    if (!q.recordset.length) return reply.code(404).send({ error: 'QR code not found' });
+    const qrId = q.recordset[0].Id as string;
+
+    const passwordHash = body.password ? await hashPassword(body.password) : null;
+
+    // Build the update from the fields actually sent
+    const request = pool.request().input('qid', SQL.UniqueIdentifier, qrId);
+    const sets: string[] = [];
+    const field = (col: string, name: string, type: any, value: any) => {
+      sets.push(`${col}=@${name}`);
+      request.input(name, type, value);
+    };
+    if (body.expiresAt !== undefined) field('ExpiresAt', 'expiresAt', SQL.DateTime2, body.expiresAt);
+    if (body.maxScans !== undefined) field('MaxScans', 'maxScans', SQL.Int, body.maxScans);
+    if (body.activeStart !== undefined) field('ActiveStart', 'activeStart', SQL.NVarChar(5), body.activeStart);
+    if (body.activeEnd !== undefined) field('ActiveEnd', 'activeEnd', SQL.NVarChar(5), body.activeEnd);
+    if (body.timezone !== undefined) field('Timezone', 'timezone', SQL.NVarChar(64), body.timezone);
+    if (passwordHash) field('Password_Hash', 'hash', SQL.NVarChar(300), passwordHash);
+    else if (body.clearPassword) field('Password_Hash', 'hash', SQL.NVarChar(300), null);
+    if (fallbackUrl !== undefined) {
+      // Screened just above; the screening job keeps the verdict current from here on
+      field('FallbackUrl', 'fallbackUrl', SQL.NVarChar(2048), fallbackUrl || null);
+      sets.push('FallbackFlagReason=NULL', 'FallbackFlagDetail=NULL', 'FallbackScreenedAt=SYSUTCDATETIME()');
+    }
+    if (body.fallbackMessage !== undefined) field('FallbackMessage', 'fallbackMessage', SQL.NVarChar(1000), body.fallbackMessage || null);
+
+    if (sets.length === 0) return reply.code(400).send({ error: 'No valid fields to update' });
+
+    await request.query(`
+      IF NOT EXISTS (SELECT 1 FROM dbo.[QR_Policy] WHERE QR_Code_Id=@qid)
+        INSERT INTO dbo.[QR_Policy] (QR_Code_Id) VALUES (@qid);
+      UPDATE dbo.[QR_Policy] SET ${sets.join(', ')}, UpdatedAt=SYSUTCDATETIME() WHERE QR_Code_Id=@qid;
+    `);
+
+    reply.send({ success: true });
+  });
+}
@@ -0,0 +1,267 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { designFromInput } from '../lib/qrCodes';
+import { EFFECTIVE_DESIGN, PRESET_JOIN, isUuid } from '../lib/presets';
+import { EYE_INNER_STYLES, EYE_OUTER_STYLES, GRADIENT_TYPES, LOGO_URL_MESSAGE, MODULE_STYLES, isAllowedLogoUrl } from '../lib/qrImage';
+import { FRAME_FONTS, FRAME_POSITIONS, FRAME_STYLES, MAX_FRAME_TEXT } from '../lib/qrFrame';
+
+const HEX = z.string().regex(/^#[0-9a-fA-F]{6}$/, { message: 'Colors must be #RRGGBB' });
+
+// Design fields match /qr/:slug/design; omitted ones fall back to the UI defaults (or the old value on update)
+const PresetBody = z.object({
+  name: z.string().trim().min(1, { message: 'Name is required' }).max(100, { message: 'Name must be at most 100 characters' }).optional(),
+  isDefault: z.boolean().optional(),
+  fg: HEX.optional(),
+  bg: HEX.optional(),
+  ec: z.enum(['L', 'M', 'Q', 'H'], { message: 'Error correction must be L, M, Q or H' }).optional(),
+  format: z.string().optional(),
+  logoUrl: z.string().refine(u => !u || isAllowedLogoUrl(u), { message: LOGO_URL_MESSAGE }).nullable().optional(),
+  logoSizePct: z.coerce.number().optional(),
+  moduleStyle: z.enum(MODULE_STYLES, { message: `Module style must be one of ${MODULE_STYLES.join(', ')}` }).optional(),
+  eyeOuterStyle: z.enum(EYE_OUTER_STYLES, { message: `Eye frame style must be one of ${EYE_OUTER_STYLES.join(', ')}` }).optional(),
+  eyeInnerStyle: z.enum(EYE_INNER_STYLES, { message: `Eye ball style must be one of ${EYE_INNER_STYLES.join(', ')}` }).optional(),
+  eyeOuterColor: HEX.nullable().optional(),
+  eyeInnerColor: HEX.nullable().optional(),
+  gradientType: z.enum(GRADIENT_TYPES, { message: `Gradient must be one of ${GRADIENT_TYPES.join(', ')}` }).optional(),
+  gradientTo: HEX.nullable().optional(),
+  gradientAngle: z.coerce.number().optional(),
+  frame: z.enum(FRAME_STYLES, { message: `Frame must be one of ${FRAME_STYLES.join(', ')}` }).optional(),
+  frameText: z.string().max(MAX_FRAME_TEXT, { message: `Frame text must be at most ${MAX_FRAME_TEXT} characters` }).optional(),
+  frameFont: z.enum(FRAME_FONTS, { message: `Frame font must be one of ${FRAME_FONTS.join(', ')}` }).optional(),
+  framePosition: z.enum(FRAME_POSITIONS, { message: `Frame position must be one of ${FRAME_POSITIONS.join(', ')}` }).optional(),
+  frameColor: HEX.nullable().optional(),
+  frameTextColor: HEX.optional()
+});
+
+const LinkBody = z.object({
+  presetId: z.string().refine(isUuid, { message: 'Design preset not found' }).nullable()
+});
+
+function presetRow(row: any) {
+  return { ...row, Design: JSON.parse(row.Design) };
+}
+
+export default async function presetRoutes(app: FastifyInstance) {
+  // ---------- List my design presets ----------
+  app.get('/api/my/presets', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .query(`
+        SELECT p.Id, p.Name, p.Design, p.IsDefault, p.CreatedAt, p.UpdatedAt,
+          (SELECT COUNT(*) FROM dbo.[QR_Code] q WHERE q.Preset_Id = p.Id AND q.DeletedAt IS NULL) AS LinkedCount
+        FROM dbo.[QR_Design_Preset] p
+        WHERE p.User_Id = @uid
+        ORDER BY p.IsDefault DESC, p.Name
+      `);
+    reply.send(r.recordset.map(presetRow));
+  });
+
+  // ---------- Create a preset ----------
+  app.post('/api/presets', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const parsed = PresetBody.safeParse(req.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: parsed.error.issues.map(e => e.message).join(', ') });
+    }
+    const body = parsed.data;
+    if (!body.name) return reply.code(400).send({ error: 'Name is required' });
+
+    const pool = await getPool();
+    const tx = new SQL.Transaction(pool);
+    await tx.begin();
+    try {
+      const dup = await new SQL.Request(tx)
+        .input('uid', SQL.UniqueIdentifier, user.sub)
+        .input('name', SQL.NVarChar(100), body.name)
+        .query('SELECT TOP 1 Id FROM dbo.[QR_Design_Preset] WHERE User_Id=@uid AND Name=@name;');
+      if (dup.recordset.length) {
+        await tx.rollback();
+        return reply.code(409).send({ error: 'A preset with this name already exists' });
+      }
+
+      if (body.isDefault) {
+        await new SQL.Request(tx)
+          .input('uid', SQL.UniqueIdentifier, user.sub)
+          .query('UPDATE dbo.[QR_Design_Preset] SET IsDefault=0 WHERE User_Id=@uid AND IsDefault=1;');
+      }
+
+      const ins = await new SQL.Request(tx)
+        .input('uid', SQL.UniqueIdentifier, user.sub)
+        .input('name', SQL.NVarChar(100), body.name)
+        .input('design', SQL.NVarChar(SQL.MAX), JSON.stringify(designFromInput(body)))
+        .input('def', SQL.Bit, body.isDefault ? 1 : 0)
+        .query(`
+          INSERT INTO dbo.[QR_Design_Preset] (User_Id, Name, Design, IsDefault)
+          OUTPUT inserted.Id, inserted.Name, inserted.Design, inserted.IsDefault, inserted.CreatedAt, inserted.UpdatedAt
+          VALUES (@uid, @name, @design, @def);
+        `);
+      await tx.commit();
+      reply.code(201).send(presetRow(ins.recordset[0]));
+    } catch (e) {
+      await tx.rollback();
+      console.error('Creating preset failed:', e);
+      return reply.code(500).send({ error: 'Failed to create preset' });
+    }
+  });
+
+  // ---------- Update a preset (linked codes pick up the new design on their next render) ----------
+  app.post('/api/presets/:id/update', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { id } = req.params as any;
+    if (!isUuid(String(id))) return reply.code(404).send({ error: 'Preset not found' });
+
+    const parsed = PresetBody.safeParse(req.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: parsed.error.issues.map(e => e.message).join(', ') });
+    }
+    const { name, isDefault, ...designFields } = parsed.data;
+
+    const pool = await getPool();
+    const tx = new SQL.Transaction(pool);
+    await tx.begin();
+    try {
+      const cur = await new SQL.Request(tx)
+        .input('uid', SQL.UniqueIdentifier, user.sub)
+        .input('id', SQL.UniqueIdentifier, id)
+        .query('SELECT TOP 1 Name, Design FROM dbo.[QR_Design_Preset] WITH (UPDLOCK) WHERE Id=@id AND User_Id=@uid;');
+      if (!cur.recordset.length) {
+        await tx.rollback();
+        return reply.code(404).send({ error: 'Preset not found' });
+      }
+
+      // A stored remote logo has to be replaced before anything else can be saved
+      let design;
+      try { design = designFromInput({ ...JSON.parse(cur.recordset[0].Design), ...designFields }); }
+      catch (e: any) {
+        await tx.rollback();
+        return reply.code(400).send({ error: e.message });
+      }
+
+      if (name && name !== cur.recordset[0].Name) {
+        const dup = await new SQL.Request(tx)
+          .input('uid', SQL.UniqueIdentifier, user.sub)
+          .input('id', SQL.UniqueIdentifier, id)
+          .input('name', SQL.NVarChar(100), name)
+          .query('SELECT TOP 1 Id FROM dbo.[QR_Design_Preset] WHERE User_Id=@uid AND Name=@name AND Id<>@id;');
+        if (dup.recordset.length) {
+          await tx.rollback();
+          return reply.code(409).send({ error: 'A preset with this name already exists' });
+        }
+      }
+
+      if (isDefault) {
+        await new SQL.Request(tx)
+          .input('uid', SQL.UniqueIdentifier, user.sub)
+          .query('UPDATE dbo.[QR_Design_Preset] SET IsDefault=0 WHERE User_Id=@uid AND IsDefault=1;');
+      }
+
+      const upd = await new SQL.Request(tx)
+        .input('id', SQL.UniqueIdentifier, id)
+        .input('name', SQL.NVarChar(100), name || cur.recordset[0].Name)
+        .input('design', SQL.NVarChar(SQL.MAX), JSON.stringify(design))
+        .input('def', SQL.Bit, isDefault === undefined ? null : isDefault ? 1 : 0)
+        .query(`
+          UPDATE dbo.[QR_Design_Preset]
+          SET Name=@name, Design=@design, IsDefault=COALESCE(@def, IsDefault), UpdatedAt=SYSUTCDATETIME()
+          OUTPUT inserted.Id, inserted.Name, inserted.Design, inserted.IsDefault, inserted.CreatedAt, inserted.UpdatedAt
+          WHERE Id=@id;
+        `);
+      await tx.commit();
+      reply.send(presetRow(upd.recordset[0]));
+    } catch (e) {
+      await tx.rollback();
+      console.error('Updating preset failed:', e);
+      return reply.code(500).send({ error: 'Failed to update preset' });
+    }
+  });
+
+  // ---------- Delete a preset (linked codes keep its current look as their own design) ----------
+  app.post('/api/presets/:id/delete', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { id } = req.params as any;
+    if (!isUuid(String(id))) return reply.code(404).send({ error: 'Preset not found' });
+
+    const pool = await getPool();
+    const tx = new SQL.Transaction(pool);
+    await tx.begin();
+    try {
+      const del = await new SQL.Request(tx)
+        .input('uid', SQL.UniqueIdentifier, user.sub)
+        .input('id', SQL.UniqueIdentifier, id)
+        .query(`
+          UPDATE q SET q.Design = p.Design, q.Preset_Id = NULL
+          FROM dbo.[QR_Code] q
+          JOIN dbo.[QR_Design_Preset] p ON p.Id = q.Preset_Id
+          WHERE p.Id = @id AND p.User_Id = @uid;
+
+          DELETE FROM dbo.[QR_Design_Preset] WHERE Id = @id AND User_Id = @uid;
+        `);
+      if ((del.rowsAffected?.[1] || 0) === 0) {
+        await tx.rollback();
+        return reply.code(404).send({ error: 'Preset not found' });
+      }
+      await tx.commit();
+      reply.send({ success: true, unlinked: del.rowsAffected[0] });
+    } catch (e) {
+      await tx.rollback();
+      console.error('Deleting preset failed:', e);
+      return reply.code(500).send({ error: 'Failed to delete preset' });
+    }
+  });
+
+  // ---------- Link a code to a preset, or unlink it with presetId=null ----------
+  app.post('/api/qr/:slug/preset', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const parsed = LinkBody.safeParse(req.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: parsed.error.issues.map(e => e.message).join(', ') });
+    }
+    const { presetId } = parsed.data;
+
+    const pool = await getPool();
+    if (presetId) {
+      const p = await pool.request()
+        .input('uid', SQL.UniqueIdentifier, user.sub)
+        .input('pid', SQL.UniqueIdentifier, presetId)
+        .query('SELECT TOP 1 Id FROM dbo.[QR_Design_Preset] WHERE Id=@pid AND User_Id=@uid;');
+      if (!p.recordset.length) return reply.code(404).send({ error: 'Preset not found' });
+    }
+
+    // Either way QR_Code.Design ends up holding the design the code currently renders with
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .input('pid', SQL.UniqueIdentifier, presetId)
+      .query(`
+        UPDATE q SET
+          q.Design = COALESCE((SELECT Design FROM dbo.[QR_Design_Preset] WHERE Id = @pid), ${EFFECTIVE_DESIGN}),
+          q.Preset_Id = @pid
+        FROM dbo.[QR_Code] q
+        ${PRESET_JOIN}
+        WHERE q.Slug = @slug AND q.User_Id = @uid AND q.DeletedAt IS NULL
+      `);
+    if ((r.rowsAffected?.[0] || 0) === 0) return reply.code(404).send({ error: 'QR code not found' });
+    reply.send({ success: true, presetId });
+  });
+}
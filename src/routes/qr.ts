@@ -1,82 +1,38 @@
-import { FastifyInstance, FastifyRequest } from 'fastify';
-import QRCode from 'qrcode';
+import crypto from 'node:crypto';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { getPool, SQL } from '../db';
-import { verifyAccess } from '../lib/jwt';
 import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { buildDestination, normalizeUrl, parseForwardParams, shortLink } from '../lib/url';
+import { assertSafeUrl, assertSafeUrls, flagMessage, screenConfigUrl } from '../lib/screening';
+import { DOMAIN_JOIN, normalizeHost, requestDomainId, resolveUserDomain, sameDomain } from '../lib/domains';
+import { utmJson } from '../lib/targets';
+import { pickRule, pickWeighted, preferredLanguage, scannerCookieName, splitCookieName } from '../lib/routing';
+import type { RuleConditions } from '../lib/routing';
+import { checkPolicy } from '../lib/policy';
+import { renderMessagePage, renderPasswordPage, renderPayloadPage, renderWarningPage } from '../lib/pages';
+import { verifyPassword } from '../lib/crypto';
+import { attemptLimiter } from '../lib/attempts';
+import { env } from '../config';
+import { designFromInput, generateSlug, insertQrCode, slugTaken, validateSlug } from '../lib/qrCodes';
+import { TAGS_JSON, parseTagIds, setCodeTags } from '../lib/tags';
+import { escapeCsvValue } from '../lib/csv';
+import { encodePayload, isPayloadType, parsePayload, qrContent } from '../lib/payloads';
+import type { PayloadType } from '../lib/payloads';
+import { PAGE_TYPE, pageUrls, parseLandingPage, renderLandingPage } from '../lib/landingPages';
+import { EFFECTIVE_DESIGN, PRESET_JOIN, isUuid, resolvePreset } from '../lib/presets';
+import { ListQuery, SORT_COLUMNS, decodeCursor, encodeCursor, likePattern, sortOrder } from '../lib/qrList';
+import type { ListCursor } from '../lib/qrList';
+import { CONTENT_TYPES, LOGO_URL_MESSAGE, RenderQuery, isAllowedLogoUrl, parseDesign, parseDesignStyle, parseFormat, renderOptionsFromQuery, renderQr } from '../lib/qrImage';
+import { parseFrame } from '../lib/qrFrame';
+import { checkScannability, scanMessages } from '../lib/scannability';
+import { renderQrCached } from '../lib/renderCache';
+import { LIVE_TARGET_ID, endActiveSchedules } from '../lib/schedules';
 // Zehua
 import useragent from 'useragent';
 import geoip from 'geoip-lite';
-import fs from 'node:fs/promises';
-import path from 'node:path';
-import { createCanvas, loadImage } from 'canvas';
-
-const PUBLIC_BASE_URL = process.env.PUBLIC_BASE_URL || 'http://localhost:8080';
 
 // ---------- helpers ----------
-function getUserOrThrow(req: FastifyRequest): AccessPayload {
-  const at = (req.cookies as any)?.at as string | undefined;
-  if (!at) throw new Error('unauthorized');
-  try { return verifyAccess(at); } catch { throw new Error('unauthorized'); }
-}
-
-function normalizeUrl(u: string) {
-  try {
-    const url = new URL(u);
-    if (!/^https?:$/i.test(url.protocol)) throw new Error('Only http/https allowed');
-    return url.toString();
-  } catch { throw new Error('Invalid URL'); }
-}
-
-function injectLogoIntoSvg(
-  svg: string,
-  logoUrl: string,
-  sizePct = 22,
-  debug = false,
-  backgroundColor = '#ffffff',
-  borderColor = '#000000'
-): string {
-  // Determine canvas size from SVG attributes (width/height or viewBox)
-  let canvasSize = 512;
-  let viewBoxSize = 29; // Default QR code viewBox size
-  
-  const whMatch = svg.match(/<svg[^>]*\bwidth=\"(\d+)\"[^>]*\bheight=\"(\d+)\"/i);
-  const vbMatch = svg.match(/viewBox=\"\s*0\s+0\s+(\d+)\s+(\d+)\s*\"/i);
-  
-  if (whMatch) {
-    canvasSize = Math.min(parseInt(whMatch[1], 10) || 512, parseInt(whMatch[2], 10) || 512);
-  }
-  
-  if (vbMatch) {
-    viewBoxSize = Math.min(parseInt(vbMatch[1], 10) || 29, parseInt(vbMatch[2], 10) || 29);
-  }
-  
-  // Calculate logo size and position in viewBox coordinates
-  const logoSizeInViewBox = (sizePct / 100) * viewBoxSize;
-  const x = (viewBoxSize - logoSizeInViewBox) / 2;
-  const y = (viewBoxSize - logoSizeInViewBox) / 2;
-
-  // Ensure xlink namespace exists for broader browser support
-  if (!/xmlns:xlink=/i.test(svg)) {
-    svg = svg.replace(
-      /<svg(\s[^>]*)?>/i,
-      (m) => m.replace('>', ' xmlns:xlink="http://www.w3.org/1999/xlink">')
-    );
-  }
-
-  const debugRect = debug ? `<rect x="${x}" y="${y}" width="${logoSizeInViewBox}" height="${logoSizeInViewBox}" fill="none" stroke="red" stroke-width="0.1" />` : '';
-  const debugText = debug ? `<text x="1" y="2" fill="red" font-size="1">logoSize=${logoSizeInViewBox.toFixed(2)} x=${x.toFixed(2)} y=${y.toFixed(2)}</text>` : '';
-  // Knockout rectangle to improve contrast (expand slightly beyond logo)
-  const pad = Math.max(0.1, logoSizeInViewBox * 0.06);
-  const kx = Math.max(0, x - pad);
-  const ky = Math.max(0, y - pad);
-  const kw = Math.min(viewBoxSize, logoSizeInViewBox + pad * 2);
-  const kh = Math.min(viewBoxSize, logoSizeInViewBox + pad * 2);
-  const knockout = `<rect x="${kx}" y="${ky}" width="${kw}" height="${kh}" rx="${pad}" ry="${pad}" fill="${backgroundColor}" />`;
-  const imageTag = `<image href="${logoUrl}" x="${x}" y="${y}" width="${logoSizeInViewBox}" height="${logoSizeInViewBox}" preserveAspectRatio="xMidYMid meet" />`;
-  const borderRect = `<rect x="${kx}" y="${ky}" width="${kw}" height="${kh}" rx="${pad}" ry="${pad}" fill="none" stroke="${borderColor}" stroke-width="0.1" />`;
-  return svg.replace('</svg>', `${debugRect}${debugText}${knockout}${imageTag}${borderRect}</svg>`);
-}
-
 function getSingaporeRegion(lat: number, lon: number): string | null {
   // Central Region (roughly 1.27-1.31 lat, 103.82-103.88 lon)
   if (lat >= 1.27 && lat <= 1.31 && lon >= 103.82 && lon <= 103.88) {
@@ -108,83 +64,139 @@ function getSingaporeRegion(lat: number, lon: number): string | null {
 }
 
 export default async function qrRoutes(app: FastifyInstance) {
-  async function resolveLogoHref(logoUrl: string): Promise<string> {
-    try {
-      if (!logoUrl) return logoUrl;
-      // Inline uploaded files as data URLs to ensure they render inside <img src=SVG>
-      let pathname: string | null = null;
-      if (logoUrl.startsWith('/uploads/')) {
-        pathname = decodeURIComponent(logoUrl);
-      } else if (/^https?:\/\//i.test(logoUrl)) {
-        try {
-          const u = new URL(logoUrl);
-          if (u.pathname.startsWith('/uploads/')) pathname = decodeURIComponent(u.pathname);
-        } catch {}
-      }
-      if (pathname) {
-        const abs = path.join(process.cwd(), 'public', pathname.replace(/^\//, ''));
-        const buf = await fs.readFile(abs).catch((e) => {
-          console.error('Logo read failed', { abs, e: String(e) });
-          throw e;
-        });
-        const ext = path.extname(abs).toLowerCase();
-        const mime = ext === '.png' ? 'image/png' : ext === '.jpg' || ext === '.jpeg' ? 'image/jpeg' : ext === '.svg' ? 'image/svg+xml' : 'application/octet-stream';
-        return `data:${mime};base64,${buf.toString('base64')}`;
-      }
-      return logoUrl;
-    } catch {
-      console.error('resolveLogoHref failed', { logoUrl });
-      return logoUrl;
-    }
-  }
   // ---------- Live preview (SVG) ----------
+  // ?check=1 answers { svg, scan } with the scannability report instead of the bare SVG
   app.get('/qr/preview', async (req, reply) => {
     const q = (req.query as any) || {};
-    const fg = String(q.fg || '#0b3d91');
-    const bg = String(q.bg || '#ffffff');
-    const ec = String(q.ec || 'M').toUpperCase();
-    const logoUrl = q.logoUrl ? await resolveLogoHref(String(q.logoUrl)) : '';
-    const logoSizePct = Number(q.logoSizePct || 22);
-    const debug = String(q.debug || '0') === '1';
     const slug = String(q.slug || '').trim();
+    const design = parseDesign(q);
 
-    const ecMap: any = { L: 'low', M: 'medium', Q: 'quartile', H: 'high' };
-    const errorCorrectionLevel = ecMap[ec] || 'medium';
+    let domain: string | null = null;
+    try { domain = q.domain ? normalizeHost(String(q.domain)) : null; } catch { domain = null; }
 
     // Use real short link if slug provided so live preview is scannable
-    const content = slug ? `${PUBLIC_BASE_URL}/r/${encodeURIComponent(slug)}` : (String(q.url || 'https://preview.local/qr'));
-
-    let svg = await QRCode.toString(content, {
-      type: 'svg',
-      color: { dark: fg, light: bg },
-      errorCorrectionLevel,
-      margin: 2,
-      width: 512
-    });
-    if (logoUrl) {
-      console.log('Injecting logo:', { logoUrl: logoUrl.substring(0, 50) + '...', logoSizePct });
-      svg = injectLogoIntoSvg(svg, logoUrl, Number.isFinite(logoSizePct) ? logoSizePct : 22, debug, bg, fg);
-    }
+    const content = slug ? shortLink(encodeURIComponent(slug), domain) : (String(q.url || 'https://preview.local/qr'));
 
+    const svg = await renderQr(content, design, 'svg', { debug: String(q.debug || '0') === '1' });
+    if (String(q.check || '0') === '1') {
+      return reply.send({ svg, scan: await checkScannability(content, design) });
+    }
     reply.header('Content-Type', 'image/svg+xml').send(svg);
   });
   // ---------- List my QR codes ----------
+  // Search, filters and keyset pagination run in SQL so large accounts stay fast.
+  // ?archived=1 lists the archive instead of active codes.
   app.get('/api/my/qr', async (req, reply) => {
     let user: AccessPayload;
     try { user = getUserOrThrow(req); }
     catch { return reply.code(401).send({ error: 'unauthorized' }); }
 
+    const parsed = ListQuery.safeParse(req.query || {});
+    if (!parsed.success) {
+      return reply.code(400).send({ error: parsed.error.issues.map(e => e.message).join(', ') });
+    }
+    const query = parsed.data;
+    const order = sortOrder(query);
+    const column = SORT_COLUMNS[query.sort];
+
+    let cursor: ListCursor | null = null;
+    if (query.cursor) {
+      try { cursor = decodeCursor(query.sort, query.cursor); }
+      catch (e: any) { return reply.code(400).send({ error: e.message }); }
+    }
+
     const pool = await getPool();
-    const r = await pool.request()
+    const request = pool.request()
       .input('uid', SQL.UniqueIdentifier, user.sub)
-      .query(`
-        SELECT q.Id, q.Name, q.Slug, q.Tags, t.Url AS CurrentUrl, q.CreatedAt
-        FROM dbo.[QR_Code] q
-        LEFT JOIN dbo.[QR_Target] t ON t.Id = q.CurrentTargetId
-        WHERE q.User_Id = @uid AND q.Archived = 0
-        ORDER BY q.CreatedAt DESC
-      `);
-    reply.send(r.recordset);
+      .input('archived', SQL.Bit, query.archived === '1' ? 1 : 0);
+
+    const where: string[] = [];
+    if (query.q) {
+      request.input('q', SQL.NVarChar(210), likePattern(query.q));
+      where.push(`(Name LIKE @q ESCAPE '\\' OR Slug LIKE @q ESCAPE '\\' OR CurrentUrl LIKE @q ESCAPE '\\')`);
+    }
+    if (query.tags?.length) {
+      // Codes carrying any of the requested tags
+      request.input('tags', SQL.NVarChar(SQL.MAX), JSON.stringify(query.tags));
+      where.push(`EXISTS (
+        SELECT 1 FROM dbo.[QR_Code_Tag] ct
+        WHERE ct.QR_Code_Id = codes.Id AND ct.Tag_Id IN (SELECT CAST(value AS UNIQUEIDENTIFIER) FROM OPENJSON(@tags))
+      )`);
+    }
+    if (query.createdFrom) {
+      request.input('createdFrom', SQL.DateTime2, query.createdFrom);
+      where.push('CreatedAt >= @createdFrom');
+    }
+    if (query.createdTo) {
+      request.input('createdTo', SQL.DateTime2, query.createdTo);
+      where.push('CreatedAt <= @createdTo');
+    }
+    if (query.minScans !== undefined) {
+      request.input('minScans', SQL.Int, query.minScans);
+      where.push('ScanCount >= @minScans');
+    }
+    if (query.maxScans !== undefined) {
+      request.input('maxScans', SQL.Int, query.maxScans);
+      where.push('ScanCount <= @maxScans');
+    }
+    if (query.broken === '1') where.push('Broken = 1');
+    const filter = where.length ? `WHERE ${where.join(' AND ')}` : '';
+
+    let page = filter;
+    if (cursor) {
+      const cmp = order === 'asc' ? '>' : '<';
+      request
+        .input('cv', query.sort === 'scans' ? SQL.Int : query.sort === 'created' ? SQL.VarChar(27) : SQL.NVarChar(200), cursor.v)
+        .input('cid', SQL.UniqueIdentifier, cursor.id);
+      // Dates travel as ODBC canonical strings so sub-millisecond precision survives the round trip
+      const cv = query.sort === 'created' ? 'CAST(@cv AS DATETIME2)' : '@cv';
+      const after = `(${column} ${cmp} ${cv} OR (${column} = ${cv} AND Id ${cmp} @cid))`;
+      page = filter ? `${filter} AND ${after}` : `WHERE ${after}`;
+    }
+
+    const codes = `
+      SELECT q.Id, q.Name, q.Slug, ${TAGS_JSON} AS Tags, t.Url AS CurrentUrl, t.PayloadType, q.Static, q.CreatedAt,
+             ISNULL(s.ScanCount, 0) AS ScanCount,
+             CAST(CASE WHEN lc.Ok = 0 THEN 1 ELSE 0 END AS BIT) AS Broken, lc.CheckedAt AS LinkCheckedAt, lc.Error AS LinkError,
+             t.FlagReason, d.Host AS DomainHost
+      FROM dbo.[QR_Code] q
+      LEFT JOIN dbo.[QR_Target] t ON t.Id = ${LIVE_TARGET_ID}
+      ${DOMAIN_JOIN}
+      OUTER APPLY (
+        SELECT COUNT(*) AS ScanCount FROM dbo.[QR_Scan] sc
+        WHERE sc.QR_Code_Id = q.Id AND sc.Is_Prefetch = 0
+      ) s
+      -- Only the latest check of the live target counts; a retarget clears the flag
+      OUTER APPLY (
+        SELECT TOP 1 c.Ok, c.CheckedAt, c.Error FROM dbo.[QR_Link_Check] c
+        WHERE c.QR_Code_Id = q.Id AND c.Target_Id = t.Id
+        ORDER BY c.CheckedAt DESC
+      ) lc
+      WHERE q.User_Id = @uid AND q.Archived = @archived AND q.DeletedAt IS NULL
+    `;
+
+    // Fetch one extra row to know whether another page exists
+    request.input('take', SQL.Int, query.limit + 1);
+    const r = await request.query(`
+      WITH codes AS (${codes})
+      SELECT COUNT(*) AS Total FROM codes ${filter};
+
+      WITH codes AS (${codes})
+      SELECT TOP (@take) *, CONVERT(VARCHAR(27), CreatedAt, 121) AS CreatedKey FROM codes ${page}
+      ORDER BY ${column} ${order.toUpperCase()}, Id ${order.toUpperCase()};
+    `);
+
+    const recordsets = r.recordsets as any[];
+    const items = recordsets[1] as any[];
+    const hasMore = items.length > query.limit;
+    if (hasMore) items.pop();
+    const nextCursor = hasMore ? encodeCursor(query.sort, items[items.length - 1]) : null;
+
+    reply.send({
+      items: items.map(({ CreatedKey, ...row }) => row),
+      total: recordsets[0][0].Total,
+      nextCursor,
+    });
   });
 
   // ---------- Create QR ---------- 
@@ -260,118 +272,86 @@ export default async function qrRoutes(app: FastifyInstance) {
 
     try {
       const name = String(body.name || '').trim();
-      const url = normalizeUrl(String(body.url || ''));
 
-      // Extract UTM parameters from the request body
-      const utmSource = String(body.utm_source || '').trim();
-      const utmMedium = String(body.utm_medium || '').trim();
-      const utmCampaign = String(body.utm_campaign || '').trim();
+      // type=url (default) keeps the classic redirect; other types carry a typed payload
+      const type = String(body.type || 'url').toLowerCase();
+      let url: string | null = null;
+      let payloadType: PayloadType | typeof PAGE_TYPE | null = null;
+      let payload = null;
+      if (type === 'url') {
+        url = await assertSafeUrl(normalizeUrl(String(body.url || '')));
+      } else if (type === PAGE_TYPE) {
+        payloadType = PAGE_TYPE;
+        try { payload = parseLandingPage(body.payload); }
+        catch (e: any) { throw new Error(e instanceof SyntaxError ? 'Invalid page' : e.message); }
+        await assertSafeUrls(pageUrls(payload));
+      } else if (isPayloadType(type)) {
+        payloadType = type;
+        try { payload = parsePayload(type, body.payload); }
+        catch (e: any) { throw new Error(e instanceof SyntaxError ? 'Invalid payload' : e.message); }
+      } else {
+        throw new Error('Unknown QR type');
+      }
+      const isStatic = String(body.mode || 'dynamic').toLowerCase() === 'static';
 
-      // Combine UTM parameters into a single JSON string for the UTM column
-      const utmData = JSON.stringify({
-        source: utmSource || null,
-        medium: utmMedium || null,
-        campaign: utmCampaign || null
-      });
+      // Short links live on the default domain unless one of the user's verified domains is picked
+      const domainId = await resolveUserDomain(pool, user.sub, body.domainId);
 
       // Use custom slug from form or generate random one
       let slug = String(body.slug || '').trim();
       if (!slug) {
         // Generate random slug if none provided
-        slug = Math.random().toString(36).substring(2, 9);
+        slug = generateSlug();
       } else {
-        // Validate custom slug format
-        if (!/^[a-zA-Z0-9\-]+$/.test(slug)) {
-          throw new Error('Slug can only contain letters, numbers, and hyphens');
-        }
-        if (slug.length < 3) {
-          throw new Error('Slug must be at least 3 characters long');
-        }
-        if (slug.length > 50) {
-          throw new Error('Slug must be less than 50 characters');
-        }
-        if (slug.startsWith('-') || slug.endsWith('-')) {
-          throw new Error('Slug cannot start or end with a hyphen');
-        }
-        
+        validateSlug(slug);
+
         // Check if slug already exists
-        const slugCheck = await pool.request()
-          .input('checkSlug', SQL.NVarChar(64), slug)
-          .query('SELECT Id FROM dbo.[QR_Code] WHERE Slug=@checkSlug');
-        
-        if (slugCheck.recordset.length > 0) {
+        if (await slugTaken(pool, slug, { domainId, userId: user.sub })) {
           throw new Error('Slug already exists. Please choose a different one.');
         }
       }
 
-      // capture design from form selections (fallbacks match UI defaults)
-      const fg = String(body.fg || '#000089');
-      const bg = String(body.bg || '#ffffff');
-      const ec = String(body.ec || 'M').toUpperCase();
-      const format = String(body.format || 'svg').toLowerCase();
-      const rawLogoUrl = String(body.logoUrl || '').trim();
-      const logoUrl = rawLogoUrl.length ? rawLogoUrl : null;
-      const logoSizePct = Math.max(10, Math.min(40, Number(body.logoSizePct || 22)));
-
-      const design = JSON.stringify({ fg, bg, ec, format, logoUrl, logoSizePct });
-
-      // Parse tags from form submission
-      let tagsJson = null;
-      if (body.tags) {
-        try {
-          const tags = typeof body.tags === 'string' ? JSON.parse(body.tags) : body.tags;
-          if (Array.isArray(tags) && tags.length > 0) {
-            // Validate each tag has required fields
-            for (const tag of tags) {
-              if (!tag.name || typeof tag.name !== 'string' || !tag.name.trim()) {
-                throw new Error('Each tag must have a valid name');
-              }
-              if (!tag.color || typeof tag.color !== 'string') {
-                throw new Error('Each tag must have a valid color');
-              }
-            }
-            tagsJson = JSON.stringify(tags);
-          }
-        } catch (e) {
-          console.error('Error parsing tags:', e);
-          // Continue without tags if parsing fails
-        }
+      // A chosen (or the default) preset supplies the design; presetId=none keeps the form's design
+      const preset = await resolvePreset(pool, user.sub, body.presetId);
+      const design = preset ? preset.design : designFromInput(body);
+
+      // Tags are referenced by id (see /api/my/tags)
+      let tagIds: string[];
+      try { tagIds = parseTagIds(body.tagIds); }
+      catch (e: any) { throw new Error(e instanceof SyntaxError ? 'Invalid tags' : e.message); }
+
+      const forwardParams = parseForwardParams(body.forwardParams);
+
+      // insert QR code with design, tags and first target (UTM from the form)
+      const tx = new SQL.Transaction(pool);
+      await tx.begin();
+      try {
+        await insertQrCode(tx, {
+          userId: user.sub,
+          name,
+          slug,
+          url,
+          payloadType,
+          payload,
+          isStatic,
+          utm_source: String(body.utm_source || '').trim(),
+          utm_medium: String(body.utm_medium || '').trim(),
+          utm_campaign: String(body.utm_campaign || '').trim(),
+          utm_term: String(body.utm_term || '').trim(),
+          utm_content: String(body.utm_content || '').trim(),
+          utm_override: body.utm_override,
+          forwardParams,
+          design,
+          presetId: preset?.id,
+          domainId,
+          tagIds
+        });
+        await tx.commit();
+      } catch (e) {
+        await tx.rollback();
+        throw e;
       }
 
-      // insert QR code with design and tags
-      const qrIns = await pool.request()
-        .input('uid', SQL.UniqueIdentifier, user.sub)
-        .input('name', SQL.NVarChar(200), name)
-        .input('slug', SQL.NVarChar(64), slug)
-        .input('design', SQL.NVarChar(SQL.MAX), design)
-        .input('tags', SQL.NVarChar(SQL.MAX), tagsJson)
-        .query(`
-          INSERT INTO dbo.[QR_Code] (User_Id, Name, Slug, Design, Tags)
-          OUTPUT inserted.Id
-          VALUES (@uid, @name, @slug, @design, @tags);
-        `);
-
-      const qrId = qrIns.recordset[0].Id as string;
-
-      // create first target with UTM parameters
-      const trgIns = await pool.request()
-        .input('qid', SQL.UniqueIdentifier, qrId)
-        .input('url', SQL.NVarChar(2048), url)
-        .input('ver', SQL.Int, 1)
-        .input('utm', SQL.NVarChar(SQL.MAX), utmData)
-        .query(`
-          INSERT INTO dbo.[QR_Target] (QR_Code_Id, Url, [Version], UTM)
-          OUTPUT inserted.Id
-          VALUES (@qid, @url, @ver, @utm);
-        `);
-
-      const targetId = trgIns.recordset[0].Id as string;
-
-      await pool.request()
-        .input('tid', SQL.UniqueIdentifier, targetId)
-        .input('qid', SQL.UniqueIdentifier, qrId)
-        .query('UPDATE dbo.[QR_Code] SET CurrentTargetId=@tid WHERE Id=@qid;');
-
       return reply.redirect(`/qr.html?success=QR+created&slug=${encodeURIComponent(slug)}`);
     } catch (e: any) {
       return reply.redirect(`/generateQR.html?error=${encodeURIComponent(e.message || 'Failed to create')}`);
@@ -436,25 +416,16 @@ export default async function qrRoutes(app: FastifyInstance) {
     const body = req.body as any;
 
     try {
-      const url = normalizeUrl(String(body.url || ''));
+      const url = await assertSafeUrl(normalizeUrl(String(body.url || '')));
       
-      // Extract UTM parameters from the request body
-      const utmSource = String(body.utm_source || '').trim();
-      const utmMedium = String(body.utm_medium || '').trim();
-      const utmCampaign = String(body.utm_campaign || '').trim();
-
       // Combine UTM parameters into a single JSON string for the UTM column
-      const utmData = JSON.stringify({
-        source: utmSource || null,
-        medium: utmMedium || null,
-        campaign: utmCampaign || null
-      });
+      const utmData = utmJson(body);
 
       const pool = await getPool();
       const q = await pool.request()
         .input('slug', SQL.NVarChar(64), slug)
         .input('uid', SQL.UniqueIdentifier, user.sub)
-        .query('SELECT TOP 1 Id FROM dbo.[QR_Code] WHERE Slug=@slug AND User_Id=@uid;');
+        .query('SELECT TOP 1 Id FROM dbo.[QR_Code] WHERE Slug=@slug AND User_Id=@uid AND DeletedAt IS NULL;');
 
       if (!q.recordset.length) return reply.redirect(`/qr.html?error=Not+found`);
       const qrId = q.recordset[0].Id as string;
@@ -481,6 +452,8 @@ export default async function qrRoutes(app: FastifyInstance) {
         .input('tid', SQL.UniqueIdentifier, targetId)
         .input('qid', SQL.UniqueIdentifier, qrId)
         .query('UPDATE dbo.[QR_Code] SET CurrentTargetId=@tid WHERE Id=@qid;');
+      // The new target applies now, not once an open-ended schedule ends
+      await endActiveSchedules(pool, qrId);
 
       return reply.redirect(`/editQR.html?slug=${encodeURIComponent(slug)}&success=Target+updated`);
     } catch (e: any) {
@@ -488,7 +461,7 @@ export default async function qrRoutes(app: FastifyInstance) {
     }
   });
 
-  // ---------- Update design (colors/logo) ----------
+  // ---------- Update design (colors/logo/shapes/frame) ----------
   app.post('/qr/:slug/design', async (req, reply) => {
     let user: AccessPayload;
     try { user = getUserOrThrow(req); }
@@ -508,22 +481,41 @@ export default async function qrRoutes(app: FastifyInstance) {
     const logoUrl = decodedLogo && decodedLogo.length ? decodedLogo : null;
     const logoSizePct = Math.max(10, Math.min(40, Number(body.logoSizePct || 22)));
 
-    const design = JSON.stringify({ fg, bg, ec, format, logoUrl, logoSizePct });
+    const design = { fg, bg, ec, format, logoUrl, logoSizePct, ...parseDesignStyle(body), ...parseFrame(body) };
+    const back = `/editQR.html?slug=${encodeURIComponent(slug)}`;
+    if (logoUrl && !isAllowedLogoUrl(logoUrl)) return reply.redirect(`${back}&error=${encodeURIComponent(LOGO_URL_MESSAGE)}`);
 
     const pool = await getPool();
-    const r = await pool.request()
+    const cur = await pool.request()
       .input('uid', SQL.UniqueIdentifier, user.sub)
       .input('slug', SQL.NVarChar(64), slug)
-      .input('design', SQL.NVarChar(SQL.MAX), design)
-      .query('UPDATE dbo.[QR_Code] SET Design=@design WHERE Slug=@slug AND User_Id=@uid;');
+      .query(`
+        SELECT TOP 1 q.Id, q.Static, t.PayloadType, t.Payload, d.Host AS DomainHost
+        FROM dbo.[QR_Code] q
+        LEFT JOIN dbo.[QR_Target] t ON t.Id = q.CurrentTargetId
+        ${DOMAIN_JOIN}
+        WHERE q.Slug=@slug AND q.User_Id=@uid AND q.DeletedAt IS NULL
+      `);
+    if (!cur.recordset.length) return reply.redirect(`${back}&error=Not+found`);
 
-    if ((r.rowsAffected?.[0] || 0) === 0) {
-      return reply.redirect(`/editQR.html?slug=${encodeURIComponent(slug)}&error=Not+found`);
+    // Unscannable designs are refused unless the user saves anyway (ignoreScan=1)
+    const scan = await checkScannability(qrContent(slug, cur.recordset[0]), parseDesign(design));
+    if (!scan.scannable && String(body.ignoreScan || '0') !== '1') {
+      return reply.redirect(`${back}&error=${encodeURIComponent(`Design not saved, the code may not scan: ${scanMessages(scan, 'error')}`)}`);
     }
-    return reply.redirect(`/editQR.html?slug=${encodeURIComponent(slug)}&success=Design+updated`);
+
+    await pool.request()
+      .input('id', SQL.UniqueIdentifier, cur.recordset[0].Id)
+      .input('design', SQL.NVarChar(SQL.MAX), JSON.stringify(design))
+      // Editing the design by hand detaches the code from its preset
+      .query('UPDATE dbo.[QR_Code] SET Design=@design, Preset_Id=NULL WHERE Id=@id;');
+
+    const warnings = scanMessages(scan, 'warning');
+    const success = warnings ? `Design updated. Warning: ${warnings}` : 'Design updated';
+    return reply.redirect(`${back}&success=${encodeURIComponent(success)}`);
   });
 
-  // ---------- Update QR (name/slug) ----------
+  // ---------- Update QR (name/slug/tags) ----------
   app.post('/api/qr/:slug/update', async (req, reply) => {
     let user: AccessPayload;
     try { user = getUserOrThrow(req); }
@@ -536,9 +528,9 @@ export default async function qrRoutes(app: FastifyInstance) {
     console.log('Update QR request:', { slug, body });
 
     // Validate input
-    if (!body.name && !body.tags) {
-      console.log('Validation failed: No name or tags provided');
-      return reply.code(400).send({ error: 'Name or tags required' });
+    if (!body.name && body.tagIds === undefined && !body.slug && body.forwardParams === undefined && body.domainId === undefined) {
+      console.log('Validation failed: No name, slug or tags provided');
+      return reply.code(400).send({ error: 'Name, slug, tagIds, forwardParams or domainId required' });
     }
 
     const pool = await getPool();
@@ -547,13 +539,14 @@ export default async function qrRoutes(app: FastifyInstance) {
     const checkResult = await pool.request()
       .input('uid', SQL.UniqueIdentifier, user.sub)
       .input('slug', SQL.NVarChar(64), slug)
-      .query('SELECT Id FROM dbo.[QR_Code] WHERE Slug=@slug AND User_Id=@uid');
+      .query('SELECT Id, Domain_Id FROM dbo.[QR_Code] WHERE Slug=@slug AND User_Id=@uid AND DeletedAt IS NULL');
 
     if (!checkResult.recordset.length) {
       return reply.code(404).send({ error: 'QR code not found' });
     }
 
     const qrId = checkResult.recordset[0].Id;
+    const oldDomainId: string | null = checkResult.recordset[0].Domain_Id;
 
     // Build update query dynamically based on what's being updated
     let updateFields = [];
@@ -570,49 +563,96 @@ export default async function qrRoutes(app: FastifyInstance) {
       inputs.push({ name: 'name', type: SQL.NVarChar(255), value: name });
     }
 
-    if (body.tags) {
-      console.log('Processing tags:', body.tags);
-      // Validate tags format
-      if (!Array.isArray(body.tags)) {
-        console.log('Tags validation failed: not an array');
-        return reply.code(400).send({ error: 'Tags must be an array' });
+    // Tags are replaced as a set; tagIds=[] clears them
+    let tagIds: string[] | null = null;
+    if (body.tagIds !== undefined) {
+      try { tagIds = parseTagIds(body.tagIds); }
+      catch (e: any) { return reply.code(400).send({ error: e instanceof SyntaxError ? 'Invalid tags' : e.message }); }
+    }
+
+    // Scan-time query params passed through to the destination; [] or null turns forwarding off
+    if (body.forwardParams !== undefined) {
+      let list: string[] | null;
+      try { list = parseForwardParams(body.forwardParams); }
+      catch (e: any) { return reply.code(400).send({ error: e.message }); }
+      updateFields.push('ForwardParams=@forwardParams');
+      inputs.push({ name: 'forwardParams', type: SQL.NVarChar(SQL.MAX), value: list ? JSON.stringify(list) : null });
+    }
+
+    // Renaming or moving to another domain keeps the old link as an alias so printed codes keep working
+    let newSlug: string | null = null;
+    if (body.slug && String(body.slug).trim() !== slug) {
+      newSlug = String(body.slug).trim();
+      try { validateSlug(newSlug); }
+      catch (e: any) { return reply.code(400).send({ error: e.message }); }
+    }
+    let newDomainId = oldDomainId;
+    if (body.domainId !== undefined) {
+      try { newDomainId = await resolveUserDomain(pool, user.sub, body.domainId); }
+      catch (e: any) { return reply.code(400).send({ error: e.message }); }
+    }
+    const domainChanged = String(newDomainId || '').toLowerCase() !== String(oldDomainId || '').toLowerCase();
+    const moved = !!newSlug || domainChanged;
+
+    if (moved) {
+      // Taking back one of this code's own aliases is allowed
+      if (await slugTaken(pool, newSlug || slug, { domainId: newDomainId, userId: user.sub, exceptId: qrId })) {
+        return reply.code(409).send({ error: 'Slug already exists. Please choose a different one.' });
       }
-      
-      // Validate each tag has required fields
-      for (const tag of body.tags) {
-        if (!tag.name || typeof tag.name !== 'string' || !tag.name.trim()) {
-          console.log('Tag validation failed: missing or invalid name');
-          return reply.code(400).send({ error: 'Each tag must have a valid name' });
-        }
-        if (!tag.color || typeof tag.color !== 'string') {
-          console.log('Tag validation failed: missing or invalid color');
-          return reply.code(400).send({ error: 'Each tag must have a valid color' });
-        }
+      if (newSlug) {
+        updateFields.push('Slug=@newSlug');
+        inputs.push({ name: 'newSlug', type: SQL.NVarChar(64), value: newSlug });
+      }
+      if (domainChanged) {
+        updateFields.push('Domain_Id=@newDomain');
+        inputs.push({ name: 'newDomain', type: SQL.UniqueIdentifier, value: newDomainId });
       }
-      
-      const tagsJson = JSON.stringify(body.tags);
-      updateFields.push('Tags=@tags');
-      inputs.push({ name: 'tags', type: SQL.NVarChar(SQL.MAX), value: tagsJson });
     }
 
-    if (updateFields.length === 0) {
+    if (updateFields.length === 0 && !tagIds) {
       return reply.code(400).send({ error: 'No valid fields to update' });
     }
 
     // Execute update
-    let updateQuery = pool.request()
-      .input('qrId', SQL.UniqueIdentifier, qrId);
-    
-    inputs.forEach(input => {
-      updateQuery = updateQuery.input(input.name, input.type, input.value);
-    });
+    const tx = new SQL.Transaction(pool);
+    await tx.begin();
+    try {
+      if (moved) {
+        await new SQL.Request(tx)
+          .input('qrId', SQL.UniqueIdentifier, qrId)
+          .input('oldSlug', SQL.NVarChar(64), slug)
+          .input('oldDomain', SQL.UniqueIdentifier, oldDomainId)
+          .input('newSlug', SQL.NVarChar(64), newSlug || slug)
+          .input('did', SQL.UniqueIdentifier, newDomainId)
+          .query(`
+            DELETE FROM dbo.[QR_Slug_Alias] WHERE Slug=@newSlug AND QR_Code_Id=@qrId AND ${sameDomain('Domain_Id')};
+            INSERT INTO dbo.[QR_Slug_Alias] (Slug, QR_Code_Id, Domain_Id) VALUES (@oldSlug, @qrId, @oldDomain);
+          `);
+      }
+
+      let updateQuery = new SQL.Request(tx)
+        .input('qrId', SQL.UniqueIdentifier, qrId);
 
-    await updateQuery.query(`UPDATE dbo.[QR_Code] SET ${updateFields.join(', ')} WHERE Id=@qrId`);
+      inputs.forEach(input => {
+        updateQuery = updateQuery.input(input.name, input.type, input.value);
+      });
 
-    reply.send({ success: true });
+      if (updateFields.length) {
+        await updateQuery.query(`UPDATE dbo.[QR_Code] SET ${updateFields.join(', ')} WHERE Id=@qrId`);
+      }
+      if (tagIds) await setCodeTags(tx, user.sub, qrId, tagIds);
+      await tx.commit();
+    } catch (e: any) {
+      await tx.rollback();
+      if (e.message === 'Unknown tag') return reply.code(400).send({ error: e.message });
+      console.error('QR update failed:', e);
+      return reply.code(500).send({ error: 'Failed to update QR code' });
+    }
+
+    reply.send({ success: true, slug: newSlug || slug });
   });
 
-  // ---------- Delete QR ----------
+  // ---------- Delete QR (moves it to the trash; see jobs/purgeTrash) ----------
   app.post('/qr/:slug/delete', async (req, reply) => {
     let user: AccessPayload;
     try { user = getUserOrThrow(req); }
@@ -624,9 +664,9 @@ export default async function qrRoutes(app: FastifyInstance) {
     await pool.request()
       .input('slug', SQL.NVarChar(64), slug)
       .input('uid', SQL.UniqueIdentifier, user.sub)
-      .query('DELETE FROM dbo.[QR_Code] WHERE Slug=@slug AND User_Id=@uid;');
+      .query('UPDATE dbo.[QR_Code] SET DeletedAt=SYSUTCDATETIME() WHERE Slug=@slug AND User_Id=@uid AND DeletedAt IS NULL;');
 
-    return reply.redirect('/qr.html?success=QR+deleted');
+    return reply.redirect('/qr.html?success=QR+moved+to+trash');
   });
 
   // ---------- Get single QR details ----------
@@ -645,7 +685,7 @@ export default async function qrRoutes(app: FastifyInstance) {
         SELECT q.Id, q.Name, q.Slug, t.Url AS CurrentUrl, q.CreatedAt
         FROM dbo.[QR_Code] q
         LEFT JOIN dbo.[QR_Target] t ON t.Id = q.CurrentTargetId
-        WHERE q.User_Id=@uid AND q.Slug=@slug
+        WHERE q.User_Id=@uid AND q.Slug=@slug AND q.DeletedAt IS NULL
       `);
 
     if (!r.recordset.length) return reply.code(404).send({ error: 'Not found' });
@@ -653,148 +693,55 @@ export default async function qrRoutes(app: FastifyInstance) {
     reply.send(r.recordset[0]);
   });
 
-  // ---------- Serve QR as SVG ----------
-  app.get('/qr/:slug/svg', async (req, reply) => {
-    const { slug } = req.params as any;
-    const debug = (req.query as any)?.debug === '1';
-    const pool = await getPool();
-    const r = await pool.request()
-      .input('slug', SQL.NVarChar(64), slug)
-      .query(`SELECT TOP 1 Design FROM dbo.[QR_Code] WHERE Slug=@slug`);
-    if (!r.recordset.length) return reply.code(404).send('Not found');
-
-    const design = JSON.parse(r.recordset[0].Design || '{}');
-    const fg = design.fg || '#0b3d91';
-    const bg = design.bg || '#ffffff';
-    const ecMap: any = { L: 'low', M: 'medium', Q: 'quartile', H: 'high' };
-    const errorCorrectionLevel = ecMap[(design.ec || 'M')] || 'medium';
-
-    const content = `${PUBLIC_BASE_URL}/r/${slug}`;
-
-    let svg = await QRCode.toString(content, {
-      type: 'svg',
-      color: { dark: fg, light: bg },
-      errorCorrectionLevel,
-      margin: 2,
-      width: 512
-    });
-    const href = design.logoUrl ? await resolveLogoHref(design.logoUrl) : '';
-    if (href) svg = injectLogoIntoSvg(svg, href, Number(design.logoSizePct) || 22, debug, bg, fg);
-
-    reply.header('Content-Type', 'image/svg+xml').send(svg);
-  });
-
-  // ---------- Serve QR as PNG ----------
-  app.get('/qr/:slug/png', async (req, reply) => {
-    const { slug } = req.params as any;
-    const q = (req.query as any) || {};
-    const wantTransparent = String(q.transparent || '0') === '1';
-    const pool = await getPool();
-    const r = await pool.request()
-      .input('slug', SQL.NVarChar(64), slug)
-      .query(`SELECT TOP 1 Design FROM dbo.[QR_Code] WHERE Slug=@slug`);
-    if (!r.recordset.length) return reply.code(404).send('Not found');
-
-    const design = JSON.parse(r.recordset[0].Design || '{}');
-    const fg = design.fg || '#0b3d91';
-    const bg = design.bg || '#ffffff';
-    const ecMap: any = { L: 'low', M: 'medium', Q: 'quartile', H: 'high' };
-    const errorCorrectionLevel = ecMap[(design.ec || 'M')] || 'medium';
-
-    const content = `${PUBLIC_BASE_URL}/r/${slug}`;
-
-    // If there's a logo, generate SVG first then convert to PNG
-    if (design.logoUrl) {
-      let svg = await QRCode.toString(content, {
-        type: 'svg',
-        color: wantTransparent ? { dark: fg } : { dark: fg, light: bg },
-        errorCorrectionLevel,
-        margin: 2,
-        width: 512
-      });
-      const href = await resolveLogoHref(design.logoUrl);
-      if (href) svg = injectLogoIntoSvg(svg, href, Number(design.logoSizePct) || 22, false, wantTransparent ? 'transparent' : bg, fg);
-
-      // Rasterize SVG to PNG with transparent background using node-canvas
-      const size = 512;
-      const canvas = createCanvas(size, size);
-      const ctx = canvas.getContext('2d');
-      ctx.clearRect(0, 0, size, size);
-      const dataUrl = 'data:image/svg+xml;base64,' + Buffer.from(svg).toString('base64');
-      const img = await loadImage(dataUrl);
-      ctx.drawImage(img, 0, 0, size, size);
-      const pngBuffer = canvas.toBuffer('image/png');
-      
-      reply.header('Content-Type', 'image/png').send(pngBuffer);
-    } else {
-      // Generate PNG with transparent background (no logo)
-      const pngBuffer = await QRCode.toBuffer(content, {
-        type: 'png',
-        color: wantTransparent
-          ? { dark: fg, light: '#00000000' } // fully transparent background
-          : { dark: fg, light: bg },
-        errorCorrectionLevel,
-        margin: 2,
-        width: 512
-      });
-
-      reply.header('Content-Type', 'image/png').send(pngBuffer);
+  // ---------- Serve QR image: /qr/:slug.svg|png|jpg|jpeg|webp|pdf|eps ----------
+  // ?size, ?margin, ?dpi, ?mm, ?transparent=1, ?quality; see RenderQuery
+  async function serveQr(req: FastifyRequest, reply: FastifyReply, slug: string, ext: string) {
+    const format = parseFormat(ext);
+    if (!format) return reply.code(404).send('Not found');
+    const parsed = RenderQuery.safeParse(req.query || {});
+    if (!parsed.success) {
+      return reply.code(400).send({ error: parsed.error.issues.map(e => e.message).join(', ') });
     }
-  });
 
-  // ---------- Serve QR as JPEG ----------
-  app.get('/qr/:slug/jpeg', async (req, reply) => {
-    const { slug } = req.params as any;
     const pool = await getPool();
     const r = await pool.request()
       .input('slug', SQL.NVarChar(64), slug)
-      .query(`SELECT TOP 1 Design FROM dbo.[QR_Code] WHERE Slug=@slug`);
+      .input('did', SQL.UniqueIdentifier, await requestDomainId(pool, req, true))
+      .query(`
+        SELECT TOP 1 ${EFFECTIVE_DESIGN} AS Design, q.Static, t.PayloadType, t.Payload, d.Host AS DomainHost
+        FROM dbo.[QR_Code] q
+        LEFT JOIN dbo.[QR_Target] t ON t.Id = q.CurrentTargetId
+        ${PRESET_JOIN}
+        ${DOMAIN_JOIN}
+        WHERE q.Slug=@slug AND ${sameDomain('q.Domain_Id')} AND q.DeletedAt IS NULL
+      `);
     if (!r.recordset.length) return reply.code(404).send('Not found');
 
-    const design = JSON.parse(r.recordset[0].Design || '{}');
-    const fg = design.fg || '#0b3d91';
-    const bg = design.bg || '#ffffff';
-    const ecMap: any = { L: 'low', M: 'medium', Q: 'quartile', H: 'high' };
-    const errorCorrectionLevel = ecMap[(design.ec || 'M')] || 'medium';
-
-    const content = `${PUBLIC_BASE_URL}/r/${slug}`;
-
-    // If there's a logo, generate SVG first then convert to JPEG
-    if (design.logoUrl) {
-      let svg = await QRCode.toString(content, {
-        type: 'svg',
-        color: { dark: fg, light: bg },
-        errorCorrectionLevel,
-        margin: 2,
-        width: 512
-      });
-      const href = await resolveLogoHref(design.logoUrl);
-      if (href) svg = injectLogoIntoSvg(svg, href, Number(design.logoSizePct) || 22, false, bg, fg);
-      
-      // Convert SVG to JPEG using QRCode library
-      const jpegBuffer = await QRCode.toBuffer(content, {
-        type: 'png',
-        color: { dark: fg, light: bg },
-        errorCorrectionLevel,
-        margin: 2,
-        width: 512
-      });
-      
-      reply.header('Content-Type', 'image/jpeg').send(jpegBuffer);
-    } else {
-      // Generate JPEG with white background (no logo)
-      const jpegBuffer = await QRCode.toBuffer(content, {
-        type: 'png',
-        color: { dark: fg, light: bg },
-        errorCorrectionLevel,
-        margin: 2,
-        width: 512
-      });
-
-      reply.header('Content-Type', 'image/jpeg').send(jpegBuffer);
+    let body: Buffer | string;
+    try {
+      body = await renderQrCached(qrContent(slug, r.recordset[0]), parseDesign(r.recordset[0].Design), format, renderOptionsFromQuery(parsed.data));
+    } catch (e: any) {
+      return reply.code(400).send({ error: e.message });
+    }
+    if (format === 'pdf' || format === 'eps') {
+      reply.header('Content-Disposition', `inline; filename="${slug}.${format}"`);
     }
+    reply.header('Content-Type', CONTENT_TYPES[format]).send(body);
+  }
+
+  app.get('/qr/:slug.:ext', async (req, reply) => {
+    const { slug, ext } = req.params as any;
+    return serveQr(req, reply, slug, ext);
   });
 
+  // Older /qr/:slug/<format> links keep working
+  for (const format of ['svg', 'png', 'jpeg']) {
+    app.get(`/qr/:slug/${format}`, async (req, reply) => {
+      const { slug } = req.params as any;
+      return serveQr(req, reply, slug, format);
+    });
+  }
+
   // ---------- Get QR Code Data for Editing ----------
   app.get('/qr/:slug/data', async (req, reply) => {
     let user: AccessPayload;
@@ -811,10 +758,14 @@ export default async function qrRoutes(app: FastifyInstance) {
       .input('uid', SQL.UniqueIdentifier, user.sub)
     .input('slug', SQL.NVarChar(64), slug)
     .query(`
-        SELECT q.Id, q.Name, q.Slug, q.Design, q.Tags, t.Url, t.UTM
+        SELECT q.Id, q.Name, q.Slug, ${EFFECTIVE_DESIGN} AS Design, q.Preset_Id, dp.Name AS PresetName,
+               ${TAGS_JSON} AS Tags, q.Static, q.ForwardParams, t.Url, t.UTM, t.PayloadType, t.Payload,
+               q.Domain_Id, d.Host AS DomainHost
         FROM dbo.[QR_Code] q
         LEFT JOIN dbo.[QR_Target] t ON t.Id = q.CurrentTargetId
-        WHERE q.User_Id = @uid AND q.Slug = @slug AND q.Archived = 0
+        ${PRESET_JOIN}
+        ${DOMAIN_JOIN}
+        WHERE q.User_Id = @uid AND q.Slug = @slug AND q.Archived = 0 AND q.DeletedAt IS NULL
       `);
     
     if (!r.recordset.length) {
@@ -823,9 +774,10 @@ export default async function qrRoutes(app: FastifyInstance) {
 
     const qrData = r.recordset[0];
     
-    // Parse design and UTM data
+    // Parse design, UTM and payload data
     let design = {};
     let utm = {};
+    let payload = null;
     
     try {
       design = qrData.Design ? JSON.parse(qrData.Design) : {};
@@ -839,42 +791,205 @@ export default async function qrRoutes(app: FastifyInstance) {
       console.error('Error parsing UTM:', error);
     }
 
+    try {
+      payload = qrData.Payload ? JSON.parse(qrData.Payload) : null;
+    } catch (error) {
+      console.error('Error parsing payload:', error);
+    }
+
     reply.send({
       Id: qrData.Id,
       Name: qrData.Name,
       Slug: qrData.Slug,
       Url: qrData.Url,
       Design: design,
+      PresetId: qrData.Preset_Id,
+      PresetName: qrData.PresetName,
       Tags: qrData.Tags,
-      UTM: utm
+      UTM: utm,
+      Type: qrData.PayloadType || 'url',
+      Static: !!qrData.Static,
+      ForwardParams: qrData.ForwardParams ? JSON.parse(qrData.ForwardParams) : [],
+      DomainId: qrData.Domain_Id,
+      DomainHost: qrData.DomainHost,
+      ShortLink: shortLink(qrData.Slug, qrData.DomainHost),
+      Payload: payload
     });
   });
 
+  // Wrong passwords per code and visitor IP (req.ip: X-Forwarded-For is client-controlled)
+  const passwordAttempts = attemptLimiter(env.PASSWORD_MAX_ATTEMPTS, env.PASSWORD_LOCKOUT_MIN * 60_000);
+
   //Zehua
   // ---------- Redirect and log scan ----------
-  app.get<{ Querystring: { utm?: string } }>('/r/:slug', async (req, reply) => {
+  // POST carries the password form for protected codes
+  async function handleScan(req: FastifyRequest, reply: FastifyReply) {
   const { slug } = req.params as any;
   const pool = await getPool();
 
-  // Get QR code and current target WITH UTM data
+  // Get QR code and live target WITH UTM data (an active schedule overrides CurrentTargetId).
+  // Slugs are per domain: the Host header picks which one
   const q = await pool.request()
     .input('slug', SQL.NVarChar(64), slug)
+    .input('did', SQL.UniqueIdentifier, await requestDomainId(pool, req))
         .query(`
-      SELECT TOP 1 q.Id AS QR_Code_Id, t.Id AS Target_Id, t.Url, t.UTM
+      SELECT TOP 1 q.Id AS QR_Code_Id, q.Archived, q.ForwardParams, ${EFFECTIVE_DESIGN} AS Design, t.Id AS Target_Id, t.Url, t.UTM, t.PayloadType, t.Payload, t.FlagReason,
+        p.ExpiresAt, p.MaxScans, p.ActiveStart, p.ActiveEnd, p.Timezone, p.Password_Hash, p.FallbackUrl, p.FallbackMessage, p.FallbackFlagReason
       FROM dbo.[QR_Code] q
-      JOIN dbo.[QR_Target] t ON t.Id = q.CurrentTargetId
-      WHERE q.Slug = @slug
+      LEFT JOIN dbo.[QR_Policy] p ON p.QR_Code_Id = q.Id
+      ${PRESET_JOIN}
+      JOIN dbo.[QR_Target] t ON t.Id = ${LIVE_TARGET_ID}
+      WHERE ((q.Slug = @slug AND ${sameDomain('q.Domain_Id')}) OR q.Id = (SELECT a.QR_Code_Id FROM dbo.[QR_Slug_Alias] a WHERE a.Slug = @slug AND ${sameDomain('a.Domain_Id')}))
+        AND q.DeletedAt IS NULL
     `);
 
   if (!q.recordset.length) return reply.code(404).send('Not found');
 
-  const { QR_Code_Id, Target_Id, Url, UTM } = q.recordset[0];
+  const { QR_Code_Id } = q.recordset[0];
+  let { Target_Id, Url, UTM, PayloadType, Payload, FlagReason } = q.recordset[0];
+  const code = q.recordset[0];
+
+    // Fallback destinations are screened too: a flagged one gets the warning page, not a redirect
+    const sendFallback = (url: string, flag: string | null) => flag
+      ? reply.header('Content-Type', 'text/html; charset=utf-8').send(renderWarningPage(url, flag))
+      : reply.redirect(url);
+
+    // Archived codes stay printed in the wild; send scanners to a "campaign ended" page
+    if (code.Archived) {
+      if (code.FallbackUrl) return sendFallback(code.FallbackUrl, code.FallbackFlagReason);
+      if (env.ARCHIVED_REDIRECT_URL) {
+        return sendFallback(env.ARCHIVED_REDIRECT_URL, (await screenConfigUrl(env.ARCHIVED_REDIRECT_URL))?.reason ?? null);
+      }
+      return reply.code(410)
+        .header('Content-Type', 'text/html; charset=utf-8')
+        .send(renderMessagePage('This campaign has ended', code.FallbackMessage || 'The campaign behind this QR code has ended.'));
+    }
+
+    // Access policy: expiry, scan cap and active hours
+    let scanCount = 0;
+    if (code.MaxScans !== null) {
+      const c = await pool.request()
+        .input('qid', SQL.UniqueIdentifier, QR_Code_Id)
+        .query('SELECT COUNT(*) AS n FROM dbo.[QR_Scan] WHERE QR_Code_Id=@qid AND Is_Prefetch = 0;');
+      scanCount = c.recordset[0].n;
+    }
+    const blocked = checkPolicy(code, scanCount);
+    if (blocked) {
+      if (code.FallbackUrl) return sendFallback(code.FallbackUrl, code.FallbackFlagReason);
+      const titles = { expired: 'This code has expired', exhausted: 'This code is no longer available', inactive: 'This code is not active right now' };
+      const message = code.FallbackMessage || (blocked === 'inactive' ? 'Please try again later.' : 'The campaign behind this QR code has ended.');
+      return reply.code(blocked === 'inactive' ? 403 : 410)
+        .header('Content-Type', 'text/html; charset=utf-8')
+        .send(renderMessagePage(titles[blocked], message));
+    }
+
+    // Password-protected codes show a form first and only redirect (and log) once it is correct
+    if (code.Password_Hash) {
+      const search = req.url.includes('?') ? req.url.slice(req.url.indexOf('?')) : '';
+      const password = req.method === 'POST' ? String((req.body as any)?.password || '') : '';
+      if (!password) {
+        return reply.header('Content-Type', 'text/html; charset=utf-8').send(renderPasswordPage(slug, undefined, search));
+      }
+      const attemptKey = `${String(QR_Code_Id).toLowerCase()}|${req.ip}`;
+      const retryAfterMs = passwordAttempts.retryAfterMs(attemptKey);
+      if (retryAfterMs) {
+        const minutes = Math.ceil(retryAfterMs / 60_000);
+        return reply.code(429)
+          .header('Retry-After', String(Math.ceil(retryAfterMs / 1000)))
+          .header('Content-Type', 'text/html; charset=utf-8')
+          .send(renderPasswordPage(slug, `Too many attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`, search));
+      }
+      const ok = await verifyPassword(code.Password_Hash, password).catch(() => false);
+      if (!ok) {
+        passwordAttempts.fail(attemptKey);
+        return reply.code(401).header('Content-Type', 'text/html; charset=utf-8').send(renderPasswordPage(slug, 'Incorrect password', search));
+      }
+      passwordAttempts.clear(attemptKey);
+    }
 
     // Gather scan info
     const ip = (req.headers['x-forwarded-for'] || req.ip || '').toString().split(',')[0].trim();
     const uaRaw = req.headers['user-agent'] || '';
     const agent = useragent.parse(uaRaw);
     const geo = geoip.lookup(ip) || {};
+    const region: string | null = (() => {
+      let region = geo.region;
+      if (!region && geo.country === 'SG' && geo.ll) {
+        // Use precise Singapore regions if lat/lon available
+        region = getSingaporeRegion(geo.ll[0], geo.ll[1]);
+      } else if (!region) {
+        // Fallback for other city-states
+        region = geo.city || geo.country;
+      }
+      return region || null;
+    })();
+
+    // Routing rules override the scheduled/current target when one matches
+    let ruleId: string | null = null;
+    const rules = await pool.request()
+      .input('qid', SQL.UniqueIdentifier, QR_Code_Id)
+      .query(`
+        SELECT rr.Id, rr.Conditions, t.Id AS Target_Id, t.Url, t.UTM, t.PayloadType, t.Payload, t.FlagReason
+        FROM dbo.[QR_Route_Rule] rr
+        JOIN dbo.[QR_Target] t ON t.Id = rr.Target_Id
+        WHERE rr.QR_Code_Id = @qid AND rr.DeletedAt IS NULL
+        ORDER BY rr.Position
+      `);
+    if (rules.recordset.length) {
+      const parsedRules = rules.recordset.map(row => {
+        let conditions: RuleConditions = {};
+        try { conditions = JSON.parse(row.Conditions); } catch (e) { console.error('Error parsing rule conditions:', e); }
+        return { ...row, Conditions: conditions };
+      });
+      const matched = pickRule(parsedRules, {
+        os: agent.os.family || '',
+        device: agent.device.family || '',
+        country: geo.country || null,
+        region,
+        lang: preferredLanguage(req.headers['accept-language'])
+      });
+      if (matched) {
+        ruleId = matched.Id;
+        ({ Target_Id, Url, UTM, PayloadType, Payload, FlagReason } = matched);
+      }
+    }
+
+    // Otherwise a running split test assigns the scanner to a weighted variant
+    let variantId: string | null = null;
+    let scannerId: string | null = null;
+    if (!ruleId) {
+      const variants = await pool.request()
+        .input('qid', SQL.UniqueIdentifier, QR_Code_Id)
+        .query(`
+          SELECT v.Id, v.Weight, t.Id AS Target_Id, t.Url, t.UTM, t.PayloadType, t.Payload, t.FlagReason
+          FROM dbo.[QR_Split_Variant] v
+          JOIN dbo.[QR_Target] t ON t.Id = v.Target_Id
+          WHERE v.QR_Code_Id = @qid AND v.DeletedAt IS NULL
+          ORDER BY v.Position
+        `);
+      if (variants.recordset.length) {
+        const cookieName = splitCookieName(QR_Code_Id);
+        const assigned = String((req.cookies as any)?.[cookieName] || '').toLowerCase();
+        const chosen = variants.recordset.find(v => String(v.Id).toLowerCase() === assigned && v.Weight > 0)
+          || pickWeighted(variants.recordset);
+        if (chosen) {
+          variantId = chosen.Id;
+          ({ Target_Id, Url, UTM, PayloadType, Payload, FlagReason } = chosen);
+          const known = String((req.cookies as any)?.[scannerCookieName(QR_Code_Id)] || '');
+          scannerId = isUuid(known) ? known.toLowerCase() : crypto.randomUUID();
+          const secure = req.protocol === 'https';
+          const cookieOpts = {
+            httpOnly: true,
+            sameSite: secure ? 'none' as const : 'lax' as const, // conversion pixels on the landing page need it cross-site
+            secure,
+            path: '/r/',
+            maxAge: 90 * 24 * 3600
+          };
+          reply.setCookie(cookieName, String(chosen.Id), cookieOpts);
+          reply.setCookie(scannerCookieName(QR_Code_Id), scannerId, cookieOpts);
+        }
+      }
+    }
 
     // Enhanced prefetch/bot detection
     const headers = req.headers;
@@ -906,17 +1021,7 @@ export default async function qrRoutes(app: FastifyInstance) {
         .input('OccurredAt', SQL.DateTime2, new Date())
         .input('IP', SQL.NVarChar(45), ip)
         .input('Country', SQL.NVarChar(5), geo.country || null)
-        .input('Region', SQL.NVarChar(100), (() => {
-            let region = geo.region;
-            if (!region && geo.country === 'SG' && geo.ll) {
-              // Use precise Singapore regions if lat/lon available
-              region = getSingaporeRegion(geo.ll[0], geo.ll[1]);
-            } else if (!region) {
-              // Fallback for other city-states
-              region = geo.city || geo.country;
-            }
-            return region;
-          })())
+        .input('Region', SQL.NVarChar(100), region)
         .input('City', SQL.NVarChar(100), geo.city || null)
         .input('Lat', SQL.Float, geo.ll ? geo.ll[0] : null)
         .input('Lon', SQL.Float, geo.ll ? geo.ll[1] : null)
@@ -933,19 +1038,63 @@ export default async function qrRoutes(app: FastifyInstance) {
         .input('Referer', SQL.NVarChar(SQL.MAX), req.headers['referer'] || null)
         .input('UTM', SQL.NVarChar(SQL.MAX), UTM || null)
         .input('Is_Prefetch', SQL.Bit, 0) // Real user scan
+        .input('Rule_Id', SQL.UniqueIdentifier, ruleId)
+        .input('Variant_Id', SQL.UniqueIdentifier, variantId)
+        .input('Scanner_Id', SQL.UniqueIdentifier, scannerId)
         .query(`
           INSERT INTO dbo.[QR_Scan]
-          (QR_Code_Id, Target_Id, OccurredAt, IP, Country, Region, City, Lat, Lon, UA_Raw, UA_Hints, DeviceType, OS, Browser, Lang, Referer, UTM, Is_Prefetch)
+          (QR_Code_Id, Target_Id, OccurredAt, IP, Country, Region, City, Lat, Lon, UA_Raw, UA_Hints, DeviceType, OS, Browser, Lang, Referer, UTM, Is_Prefetch, Rule_Id, Variant_Id, Scanner_Id)
           VALUES
-          (@QR_Code_Id, @Target_Id, @OccurredAt, @IP, @Country, @Region, @City, @Lat, @Lon, @UA_Raw, @UA_Hints, @DeviceType, @OS, @Browser, @Lang, @Referer, @UTM, @Is_Prefetch)
+          (@QR_Code_Id, @Target_Id, @OccurredAt, @IP, @Country, @Region, @City, @Lat, @Lon, @UA_Raw, @UA_Hints, @DeviceType, @OS, @Browser, @Lang, @Referer, @UTM, @Is_Prefetch, @Rule_Id, @Variant_Id, @Scanner_Id)
         `).catch(console.error);
     } else {
       console.log('Skipping scan log - detected as prefetch/bot');
     }
 
-    // Always redirect regardless (so link previews still work)
-    return reply.redirect(Url);
-  });
+    // Hosted landing page, themed with the code's design colors
+    if (PayloadType === PAGE_TYPE) {
+      // A page that links somewhere screening flagged isn't served from our domain
+      if (FlagReason) {
+        return reply.code(403)
+          .header('Content-Type', 'text/html; charset=utf-8')
+          .send(renderMessagePage('This page is unavailable', `One of its links was flagged. ${flagMessage(FlagReason)}.`));
+      }
+      let design = {};
+      try { design = JSON.parse(code.Design || '{}'); } catch (e) { console.error('Error parsing design:', e); }
+      return reply.header('Content-Type', 'text/html; charset=utf-8').send(renderLandingPage(parseLandingPage(Payload), design));
+    }
+
+    // Typed payloads: download the .vcf/.ics or show a landing page instead of redirecting
+    if (PayloadType && isPayloadType(PayloadType)) {
+      const data = parsePayload(PayloadType, Payload);
+      if (PayloadType === 'vcard' || PayloadType === 'mecard') {
+        return reply
+          .header('Content-Type', 'text/vcard; charset=utf-8')
+          .header('Content-Disposition', `attachment; filename="${encodeURIComponent(slug)}.vcf"`)
+          .send(encodePayload('vcard', data));
+      }
+      if (PayloadType === 'event') {
+        return reply
+          .header('Content-Type', 'text/calendar; charset=utf-8')
+          .header('Content-Disposition', `attachment; filename="${encodeURIComponent(slug)}.ics"`)
+          .send(encodePayload('event', data, `${QR_Code_Id}@${new URL(env.PUBLIC_BASE_URL).host}`));
+      }
+      return reply.header('Content-Type', 'text/html; charset=utf-8').send(renderPayloadPage(PayloadType, data));
+    }
+
+    // Always redirect regardless (so link previews still work).
+    // UTM tags and allowlisted scan params go onto the destination so analytics downstream sees them.
+    let forward: string[] = [];
+    try { forward = code.ForwardParams ? JSON.parse(code.ForwardParams) : []; } catch (e) { console.error('Error parsing forward params:', e); }
+    const destination = buildDestination(Url, UTM, req.query as Record<string, unknown>, forward);
+    // Screening flagged this destination after it was saved: warn instead of redirecting
+    if (FlagReason) {
+      return reply.header('Content-Type', 'text/html; charset=utf-8').send(renderWarningPage(destination, FlagReason));
+    }
+    return reply.redirect(destination);
+  }
+  app.get('/r/:slug', handleScan);
+  app.post('/r/:slug', handleScan);
 
   // Get QR code name for dashboard filter
   app.get<{ Params: { userId: string } }>('/api/user/:userId/qrcodes', async (req, reply) => {
@@ -957,7 +1106,7 @@ export default async function qrRoutes(app: FastifyInstance) {
       .query(`
         SELECT CAST(Id AS NVARCHAR(36)) AS __value, Name AS __text
         FROM dbo.QR_Code
-        WHERE User_Id = @uid
+        WHERE User_Id = @uid AND DeletedAt IS NULL
         UNION
         SELECT 'all' AS __value, 'All QR Codes' AS __text
       `);
@@ -983,7 +1132,7 @@ export default async function qrRoutes(app: FastifyInstance) {
           SELECT c.Slug, COUNT(scans.Id) AS ScanCount
           FROM dbo.[QR_Code] c
           LEFT JOIN dbo.[QR_Scan] scans ON c.Id = scans.QR_Code_Id AND scans.Is_Prefetch = 0
-          WHERE c.User_Id = @uid AND c.Archived = 0
+          WHERE c.User_Id = @uid AND c.Archived = 0 AND c.DeletedAt IS NULL
           GROUP BY c.Slug
         `);
 
@@ -1027,6 +1176,8 @@ export default async function qrRoutes(app: FastifyInstance) {
       UTM:"s.UTM",
       QR_Code_Id:"s.QR_Code_Id",
       Target_Id:"s.Target_Id",
+      Rule_Id:"s.Rule_Id",
+      Variant_Id:"s.Variant_Id",
       Lat:"s.Lat",
       Lon:"s.Lon",
       UA_Raw:"s.UA_Raw",
@@ -1081,16 +1232,6 @@ export default async function qrRoutes(app: FastifyInstance) {
     try {
       const r = await request.query(query);
 
-      function escapeCsvValue(value: any): string {
-        if (value === null || value === undefined) return "";
-        if (value instanceof Date) return value.toISOString();
-        const str = String(value);
-        if (str.includes(",") || str.includes('"') || str.includes("\n") || str.includes("\r")) {
-          return `"${str.replace(/"/g, '""')}"`;
-        }
-        return str;
-      }
-
       // CSV header
       const headerRow = selectedCols.join(",");
 
@@ -1144,48 +1285,4 @@ export default async function qrRoutes(app: FastifyInstance) {
     });
   });
 
-  // Get all existing tags for the current user
-  app.get('/api/my/tags', async (req, reply) => {
-    let user: AccessPayload;
-    try { user = getUserOrThrow(req); }
-    catch { return reply.code(401).send({ error: 'unauthorized' }); }
-
-    const pool = await getPool();
-    const r = await pool.request()
-      .input('uid', SQL.UniqueIdentifier, user.sub)
-      .query(`
-        SELECT DISTINCT Tags
-        FROM dbo.[QR_Code]
-        WHERE User_Id = @uid AND Tags IS NOT NULL AND Tags != ''
-      `);
-
-    const allTags = new Map();
-    
-    r.recordset.forEach(row => {
-      if (row.Tags) {
-        try {
-          const tags = typeof row.Tags === 'string' ? JSON.parse(row.Tags) : row.Tags;
-          if (Array.isArray(tags)) {
-            tags.forEach(tag => {
-              if (tag.name && tag.color) {
-                // Use the first occurrence of each tag name (keep original color)
-                if (!allTags.has(tag.name.toLowerCase())) {
-                  allTags.set(tag.name.toLowerCase(), {
-                    name: tag.name,
-                    color: tag.color
-                  });
-                }
-              }
-            });
-          }
-        } catch (e) {
-          console.error('Error parsing tags:', e);
-        }
-      }
-    });
-
-    const uniqueTags = Array.from(allTags.values()).sort((a, b) => a.name.localeCompare(b.name));
-    reply.send(uniqueTags);
-  });
-
 }
\ No newline at end of file
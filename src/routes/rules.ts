@@ -0,0 +1,139 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { normalizeUrl } from '../lib/url';
+import { assertSafeUrl } from '../lib/screening';
+import { UtmFields, findOrCreateTarget, utmJson } from '../lib/targets';
+
+const ConditionList = z.array(z.string().trim().min(1)).max(50).optional();
+
+const Rule = z.object({
+  id: z.uuid().optional(), // an existing rule to update; rules without one are added
+  name: z.string().trim().max(200).optional(),
+  conditions: z.object({
+    os: ConditionList,
+    device: ConditionList,
+    country: ConditionList,
+    region: ConditionList,
+    lang: ConditionList
+  }),
+  url: z.string().trim().min(1, { message: 'Each rule needs a URL' }),
+  ...UtmFields
+});
+
+const SaveRules = z.object({
+  rules: z.array(Rule).max(50, { message: 'At most 50 rules per QR code' })
+});
+
+export default async function ruleRoutes(app: FastifyInstance) {
+  // ---------- List routing rules ----------
+  app.get('/api/qr/:slug/rules', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .query(`
+        SELECT rr.Id, rr.Position, rr.Name, rr.Conditions, t.Id AS Target_Id, t.[Version], t.Url, t.UTM
+        FROM dbo.[QR_Route_Rule] rr
+        JOIN dbo.[QR_Code] q ON q.Id = rr.QR_Code_Id
+        JOIN dbo.[QR_Target] t ON t.Id = rr.Target_Id
+        WHERE q.Slug = @slug AND q.User_Id = @uid AND rr.DeletedAt IS NULL
+        ORDER BY rr.Position
+      `);
+
+    reply.send(r.recordset.map(row => {
+      let conditions = {};
+      let utm = {};
+      try { conditions = JSON.parse(row.Conditions); } catch (e) { console.error('Error parsing rule conditions:', e); }
+      try { utm = row.UTM ? JSON.parse(row.UTM) : {}; } catch (e) { console.error('Error parsing UTM:', e); }
+      return { ...row, Conditions: conditions, UTM: utm };
+    }));
+  });
+
+  // ---------- Save routing rules (order of the array is evaluation order) ----------
+  // Rules sent with their id are updated in place and keep their scan history; rules left out are retired
+  app.post('/api/qr/:slug/rules', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const parsed = SaveRules.safeParse(req.body);
+    if (!parsed.success) {
+      const msg = parsed.error.issues.map(e => e.message).join(', ');
+      return reply.code(400).send({ error: msg });
+    }
+
+    let rules;
+    try {
+      rules = parsed.data.rules.map(rule => ({
+        id: rule.id?.toLowerCase() ?? null,
+        name: rule.name || null,
+        conditions: JSON.stringify(rule.conditions),
+        url: normalizeUrl(rule.url),
+        utm: utmJson(rule)
+      }));
+      for (const rule of rules) await assertSafeUrl(rule.url);
+    } catch (e: any) {
+      return reply.code(400).send({ error: e.message });
+    }
+
+    const pool = await getPool();
+    const q = await pool.request()
+      .input('slug', SQL.NVarChar(64), slug)
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .query('SELECT TOP 1 Id FROM dbo.[QR_Code] WHERE Slug=@slug AND User_Id=@uid AND DeletedAt IS NULL;');
+    if (!q.recordset.length) return reply.code(404).send({ error: 'QR code not found' });
+    const qrId = q.recordset[0].Id as string;
+
+    const tx = new SQL.Transaction(pool);
+    await tx.begin();
+    try {
+      const current = await new SQL.Request(tx)
+        .input('qid', SQL.UniqueIdentifier, qrId)
+        .query('SELECT Id FROM dbo.[QR_Route_Rule] WITH (UPDLOCK) WHERE QR_Code_Id=@qid AND DeletedAt IS NULL;');
+      const unclaimed = new Set<string>(current.recordset.map(row => String(row.Id).toLowerCase()));
+
+      for (let i = 0; i < rules.length; i++) {
+        const rule = rules[i];
+
+        const targetId = await findOrCreateTarget(tx, qrId, rule.url, rule.utm);
+
+        // An id that isn't one of this code's live rules (or is repeated) is added as a new rule
+        const existing = rule.id && unclaimed.delete(rule.id) ? rule.id : null;
+        await new SQL.Request(tx)
+          .input('id', SQL.UniqueIdentifier, existing)
+          .input('qid', SQL.UniqueIdentifier, qrId)
+          .input('tid', SQL.UniqueIdentifier, targetId)
+          .input('pos', SQL.Int, i)
+          .input('name', SQL.NVarChar(200), rule.name)
+          .input('cond', SQL.NVarChar(SQL.MAX), rule.conditions)
+          .query(existing
+            ? 'UPDATE dbo.[QR_Route_Rule] SET Target_Id=@tid, Position=@pos, Name=@name, Conditions=@cond WHERE Id=@id AND QR_Code_Id=@qid;'
+            : `INSERT INTO dbo.[QR_Route_Rule] (QR_Code_Id, Target_Id, Position, Name, Conditions)
+               VALUES (@qid, @tid, @pos, @name, @cond);`);
+      }
+
+      for (const id of unclaimed) {
+        await new SQL.Request(tx)
+          .input('id', SQL.UniqueIdentifier, id)
+          .query('UPDATE dbo.[QR_Route_Rule] SET DeletedAt=SYSUTCDATETIME() WHERE Id=@id;');
+      }
+
+      await tx.commit();
+    } catch (e) {
+      await tx.rollback();
+      console.error('Saving rules failed:', e);
+      return reply.code(500).send({ error: 'Failed to save rules' });
+    }
+
+    reply.send({ success: true, count: rules.length });
+  });
+}
@@ -0,0 +1,177 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { isUuid } from '../lib/presets';
+import { TAG_COLOR } from '../lib/tags';
+
+const TagName = z.string().trim()
+  .min(1, { message: 'Tag name is required' })
+  .max(50, { message: 'Tag names must be at most 50 characters' });
+const TagColor = z.string().regex(TAG_COLOR, { message: 'Tag color must be #RRGGBB' });
+
+const CreateTag = z.object({ name: TagName, color: TagColor });
+const UpdateTag = z.object({ name: TagName.optional(), color: TagColor.optional() })
+  .refine(t => t.name !== undefined || t.color !== undefined, { message: 'Name or color required' });
+const MergeTag = z.object({ into: z.string().refine(isUuid, { message: 'Tag not found' }) });
+
+async function nameTaken(pool: Awaited<ReturnType<typeof getPool>>, userId: string, name: string, exceptId: string | null) {
+  const r = await pool.request()
+    .input('uid', SQL.UniqueIdentifier, userId)
+    .input('name', SQL.NVarChar(50), name)
+    .input('id', SQL.UniqueIdentifier, exceptId)
+    .query('SELECT TOP 1 Id FROM dbo.[QR_Tag] WHERE User_Id=@uid AND Name=@name AND (@id IS NULL OR Id<>@id);');
+  return r.recordset.length > 0;
+}
+
+export default async function tagRoutes(app: FastifyInstance) {
+  // ---------- List my tags with usage counts ----------
+  app.get('/api/my/tags', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .query(`
+        SELECT t.Id AS id, t.Name AS name, t.Color AS color,
+          (SELECT COUNT(*) FROM dbo.[QR_Code_Tag] ct
+           JOIN dbo.[QR_Code] q ON q.Id = ct.QR_Code_Id
+           WHERE ct.Tag_Id = t.Id AND q.DeletedAt IS NULL) AS usageCount
+        FROM dbo.[QR_Tag] t
+        WHERE t.User_Id = @uid
+        ORDER BY t.Name
+      `);
+    reply.send(r.recordset);
+  });
+
+  // ---------- Create a tag ----------
+  app.post('/api/tags', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const parsed = CreateTag.safeParse(req.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: parsed.error.issues.map(e => e.message).join(', ') });
+    }
+    const { name, color } = parsed.data;
+
+    const pool = await getPool();
+    if (await nameTaken(pool, user.sub, name, null)) {
+      return reply.code(409).send({ error: 'A tag with this name already exists' });
+    }
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('name', SQL.NVarChar(50), name)
+      .input('color', SQL.NVarChar(20), color)
+      .query(`
+        INSERT INTO dbo.[QR_Tag] (User_Id, Name, Color)
+        OUTPUT inserted.Id AS id, inserted.Name AS name, inserted.Color AS color
+        VALUES (@uid, @name, @color);
+      `);
+    reply.code(201).send({ ...r.recordset[0], usageCount: 0 });
+  });
+
+  // ---------- Rename / recolor a tag (every code carrying it follows) ----------
+  app.post('/api/tags/:id/update', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { id } = req.params as any;
+    if (!isUuid(String(id))) return reply.code(404).send({ error: 'Tag not found' });
+
+    const parsed = UpdateTag.safeParse(req.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: parsed.error.issues.map(e => e.message).join(', ') });
+    }
+    const { name, color } = parsed.data;
+
+    const pool = await getPool();
+    if (name && await nameTaken(pool, user.sub, name, id)) {
+      return reply.code(409).send({ error: 'A tag with this name already exists. Merge the tags instead.' });
+    }
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('id', SQL.UniqueIdentifier, id)
+      .input('name', SQL.NVarChar(50), name ?? null)
+      .input('color', SQL.NVarChar(20), color ?? null)
+      .query(`
+        UPDATE dbo.[QR_Tag] SET Name = COALESCE(@name, Name), Color = COALESCE(@color, Color)
+        OUTPUT inserted.Id AS id, inserted.Name AS name, inserted.Color AS color
+        WHERE Id = @id AND User_Id = @uid;
+      `);
+    if (!r.recordset.length) return reply.code(404).send({ error: 'Tag not found' });
+    reply.send(r.recordset[0]);
+  });
+
+  // ---------- Merge a tag into another (codes move over, the source tag is removed) ----------
+  app.post('/api/tags/:id/merge', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { id } = req.params as any;
+    if (!isUuid(String(id))) return reply.code(404).send({ error: 'Tag not found' });
+
+    const parsed = MergeTag.safeParse(req.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: parsed.error.issues.map(e => e.message).join(', ') });
+    }
+    const { into } = parsed.data;
+    if (into.toLowerCase() === String(id).toLowerCase()) {
+      return reply.code(400).send({ error: 'Cannot merge a tag into itself' });
+    }
+
+    const pool = await getPool();
+    const owned = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('id', SQL.UniqueIdentifier, id)
+      .input('into', SQL.UniqueIdentifier, into)
+      .query('SELECT COUNT(*) AS n FROM dbo.[QR_Tag] WHERE User_Id=@uid AND Id IN (@id, @into);');
+    if (owned.recordset[0].n !== 2) return reply.code(404).send({ error: 'Tag not found' });
+
+    const tx = new SQL.Transaction(pool);
+    await tx.begin();
+    try {
+      const r = await new SQL.Request(tx)
+        .input('id', SQL.UniqueIdentifier, id)
+        .input('into', SQL.UniqueIdentifier, into)
+        .query(`
+          INSERT INTO dbo.[QR_Code_Tag] (QR_Code_Id, Tag_Id)
+          SELECT ct.QR_Code_Id, @into FROM dbo.[QR_Code_Tag] ct
+          WHERE ct.Tag_Id = @id
+            AND NOT EXISTS (SELECT 1 FROM dbo.[QR_Code_Tag] x WHERE x.QR_Code_Id = ct.QR_Code_Id AND x.Tag_Id = @into);
+          DELETE FROM dbo.[QR_Code_Tag] WHERE Tag_Id = @id;
+          DELETE FROM dbo.[QR_Tag] WHERE Id = @id;
+        `);
+      await tx.commit();
+      reply.send({ success: true, moved: r.rowsAffected[0] });
+    } catch (e) {
+      await tx.rollback();
+      console.error('Merging tags failed:', e);
+      return reply.code(500).send({ error: 'Failed to merge tags' });
+    }
+  });
+
+  // ---------- Delete a tag (removed from every code) ----------
+  app.post('/api/tags/:id/delete', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { id } = req.params as any;
+    if (!isUuid(String(id))) return reply.code(404).send({ error: 'Tag not found' });
+
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('id', SQL.UniqueIdentifier, id)
+      .query('DELETE FROM dbo.[QR_Tag] WHERE Id=@id AND User_Id=@uid;');
+    if ((r.rowsAffected?.[0] || 0) === 0) return reply.code(404).send({ error: 'Tag not found' });
+    reply.send({ success: true });
+  });
+}
@@ -0,0 +1,276 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { normalizeUrl } from '../lib/url';
+import { assertSafeUrl, flagMessage, recordScreening } from '../lib/screening';
+import { UtmFields, nextTargetVersion, screenTarget, utmJson } from '../lib/targets';
+import { isPayloadType, parsePayload } from '../lib/payloads';
+import { LIVE_TARGET_ID, endActiveSchedules, scheduleStatus } from '../lib/schedules';
+
+const CreateSchedule = z.object({
+  url: z.string().trim().min(1, { message: 'URL is required' }),
+  ...UtmFields,
+  startsAt: z.coerce.date({ message: 'Enter a valid start time' }),
+  endsAt: z.coerce.date({ message: 'Enter a valid end time' }).optional()
+}).refine(s => !s.endsAt || s.endsAt > s.startsAt, { message: 'End time must be after start time' });
+
+export default async function targetRoutes(app: FastifyInstance) {
+  // ---------- Target version history ----------
+  app.get('/api/qr/:slug/targets', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const pool = await getPool();
+
+    const q = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .query(`SELECT TOP 1 q.Id, ${LIVE_TARGET_ID} AS LiveTargetId FROM dbo.[QR_Code] q WHERE q.Slug=@slug AND q.User_Id=@uid AND q.DeletedAt IS NULL;`);
+    if (!q.recordset.length) return reply.code(404).send({ error: 'QR code not found' });
+    // Current means where scans go now, which an active schedule decides
+    const { Id: qrId, LiveTargetId } = q.recordset[0];
+
+    // Scans are attributed per version through QR_Scan.Target_Id
+    const r = await pool.request()
+      .input('qid', SQL.UniqueIdentifier, qrId)
+      .query(`
+        SELECT t.Id, t.[Version], t.Url, t.UTM, t.PayloadType, t.Payload, t.CreatedAt, t.FlagReason, COUNT(s.Id) AS ScanCount
+        FROM dbo.[QR_Target] t
+        LEFT JOIN dbo.[QR_Scan] s ON s.Target_Id = t.Id AND s.Is_Prefetch = 0
+        WHERE t.QR_Code_Id = @qid
+        GROUP BY t.Id, t.[Version], t.Url, t.UTM, t.PayloadType, t.Payload, t.CreatedAt, t.FlagReason
+        ORDER BY t.[Version] DESC
+      `);
+
+    const versions = r.recordset.map(row => {
+      let utm = {};
+      let payload = null;
+      try {
+        utm = row.UTM ? JSON.parse(row.UTM) : {};
+        payload = row.Payload ? JSON.parse(row.Payload) : null;
+      } catch (error) {
+        console.error('Error parsing target JSON:', error);
+      }
+      return {
+        Id: row.Id,
+        Version: row.Version,
+        Url: row.Url,
+        UTM: utm,
+        Type: row.PayloadType || 'url',
+        Payload: payload,
+        CreatedAt: row.CreatedAt,
+        ScanCount: row.ScanCount,
+        Flag: row.FlagReason,
+        IsCurrent: String(row.Id).toLowerCase() === String(LiveTargetId || '').toLowerCase()
+      };
+    });
+
+    reply.send(versions);
+  });
+
+  // ---------- Roll back to an older target version ----------
+  app.post('/api/qr/:slug/targets/:version/rollback', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug, version } = req.params as any;
+    const ver = Number(version);
+    if (!Number.isInteger(ver) || ver < 1) {
+      return reply.code(400).send({ error: 'Version must be a positive integer' });
+    }
+
+    const pool = await getPool();
+    const t = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .input('ver', SQL.Int, ver)
+      .query(`
+        SELECT TOP 1 q.Id AS QR_Code_Id, t.Id AS Target_Id, t.Url, t.PayloadType, t.Payload
+        FROM dbo.[QR_Code] q
+        JOIN dbo.[QR_Target] t ON t.QR_Code_Id = q.Id
+        WHERE q.Slug = @slug AND q.User_Id = @uid AND q.DeletedAt IS NULL AND t.[Version] = @ver
+      `);
+    if (!t.recordset.length) return reply.code(404).send({ error: 'Version not found' });
+    const { QR_Code_Id, Target_Id, Url } = t.recordset[0];
+
+    // Screen again: the lists may have changed since this version was live
+    const verdict = await screenTarget(t.recordset[0]);
+    await recordScreening(pool, Target_Id, verdict);
+    if (verdict) return reply.code(400).send({ error: `Destination not allowed: ${flagMessage(verdict.reason)}` });
+
+    // Point back at the existing row so scan history stays with that version; an active schedule
+    // would otherwise keep serving its own target
+    await pool.request()
+      .input('tid', SQL.UniqueIdentifier, Target_Id)
+      .input('qid', SQL.UniqueIdentifier, QR_Code_Id)
+      .query('UPDATE dbo.[QR_Code] SET CurrentTargetId=@tid WHERE Id=@qid;');
+    await endActiveSchedules(pool, QR_Code_Id);
+
+    reply.send({ success: true, version: ver, url: Url });
+  });
+
+  // ---------- Scheduled retargeting ----------
+  app.get('/api/qr/:slug/schedules', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .query(`
+        SELECT s.Id, s.StartsAt, s.EndsAt, s.CanceledAt, s.CreatedAt, t.[Version], t.Url
+        FROM dbo.[QR_Target_Schedule] s
+        JOIN dbo.[QR_Code] q ON q.Id = s.QR_Code_Id
+        JOIN dbo.[QR_Target] t ON t.Id = s.Target_Id
+        WHERE q.Slug = @slug AND q.User_Id = @uid AND q.DeletedAt IS NULL
+        ORDER BY s.StartsAt DESC
+      `);
+
+    reply.send(r.recordset.map(row => ({ ...row, Status: scheduleStatus(row) })));
+  });
+
+  app.post('/api/qr/:slug/schedules', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const parsed = CreateSchedule.safeParse(req.body);
+    if (!parsed.success) {
+      const msg = parsed.error.issues.map(e => e.message).join(', ');
+      return reply.code(400).send({ error: msg });
+    }
+    const body = parsed.data;
+
+    let url: string;
+    try { url = await assertSafeUrl(normalizeUrl(body.url)); }
+    catch (e: any) { return reply.code(400).send({ error: e.message }); }
+
+    const utmData = utmJson(body);
+
+    const pool = await getPool();
+    const q = await pool.request()
+      .input('slug', SQL.NVarChar(64), slug)
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .query('SELECT TOP 1 Id FROM dbo.[QR_Code] WHERE Slug=@slug AND User_Id=@uid AND DeletedAt IS NULL;');
+    if (!q.recordset.length) return reply.code(404).send({ error: 'QR code not found' });
+    const qrId = q.recordset[0].Id as string;
+
+    // The scheduled URL becomes a regular version so history and scan attribution apply to it
+    const tx = new SQL.Transaction(pool);
+    await tx.begin();
+    let scheduleId: string, nextVer: number;
+    try {
+      nextVer = await nextTargetVersion(tx, qrId);
+      const trg = await new SQL.Request(tx)
+        .input('qid', SQL.UniqueIdentifier, qrId)
+        .input('url', SQL.NVarChar(2048), url)
+        .input('ver', SQL.Int, nextVer)
+        .input('utm', SQL.NVarChar(SQL.MAX), utmData)
+        .query(`
+          INSERT INTO dbo.[QR_Target] (QR_Code_Id, Url, [Version], UTM)
+          OUTPUT inserted.Id
+          VALUES (@qid, @url, @ver, @utm);
+        `);
+
+      const sch = await new SQL.Request(tx)
+        .input('qid', SQL.UniqueIdentifier, qrId)
+        .input('tid', SQL.UniqueIdentifier, trg.recordset[0].Id)
+        .input('starts', SQL.DateTime2, body.startsAt)
+        .input('ends', SQL.DateTime2, body.endsAt || null)
+        .query(`
+          INSERT INTO dbo.[QR_Target_Schedule] (QR_Code_Id, Target_Id, StartsAt, EndsAt)
+          OUTPUT inserted.Id
+          VALUES (@qid, @tid, @starts, @ends);
+        `);
+      scheduleId = sch.recordset[0].Id;
+
+      await tx.commit();
+    } catch (e) {
+      await tx.rollback();
+      console.error('Saving schedule failed:', e);
+      return reply.code(500).send({ error: 'Failed to save schedule' });
+    }
+
+    reply.send({ success: true, id: scheduleId, version: nextVer });
+  });
+
+  app.post('/api/qr/:slug/schedules/:id/cancel', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug, id } = req.params as any;
+    if (!z.string().uuid().safeParse(id).success) {
+      return reply.code(400).send({ error: 'Invalid schedule id' });
+    }
+
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .input('id', SQL.UniqueIdentifier, id)
+      .query(`
+        UPDATE s SET CanceledAt = SYSUTCDATETIME()
+        FROM dbo.[QR_Target_Schedule] s
+        JOIN dbo.[QR_Code] q ON q.Id = s.QR_Code_Id
+        WHERE s.Id = @id AND q.Slug = @slug AND q.User_Id = @uid AND q.DeletedAt IS NULL AND s.CanceledAt IS NULL
+      `);
+
+    if ((r.rowsAffected?.[0] || 0) === 0) return reply.code(404).send({ error: 'Schedule not found' });
+    reply.send({ success: true });
+  });
+
+  // ---------- New payload version (dynamic vCard/Wi-Fi/event/... codes) ----------
+  app.post('/api/qr/:slug/payload', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const body = (req.body as any) || {};
+    const type = String(body.type || '').toLowerCase();
+    if (!isPayloadType(type)) return reply.code(400).send({ error: 'Unknown QR type' });
+
+    let payload;
+    try { payload = parsePayload(type, body.payload); }
+    catch (e: any) { return reply.code(400).send({ error: e instanceof SyntaxError ? 'Invalid payload' : e.message }); }
+
+    const pool = await getPool();
+    const q = await pool.request()
+      .input('slug', SQL.NVarChar(64), slug)
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .query('SELECT TOP 1 Id, Static FROM dbo.[QR_Code] WHERE Slug=@slug AND User_Id=@uid AND DeletedAt IS NULL;');
+    if (!q.recordset.length) return reply.code(404).send({ error: 'QR code not found' });
+    const { Id: qrId, Static } = q.recordset[0];
+
+    const nextVer = await nextTargetVersion(pool, qrId);
+    const trg = await pool.request()
+      .input('qid', SQL.UniqueIdentifier, qrId)
+      .input('ver', SQL.Int, nextVer)
+      .input('ptype', SQL.NVarChar(20), type)
+      .input('payload', SQL.NVarChar(SQL.MAX), JSON.stringify(payload))
+      .query(`
+        INSERT INTO dbo.[QR_Target] (QR_Code_Id, Url, [Version], PayloadType, Payload)
+        OUTPUT inserted.Id
+        VALUES (@qid, NULL, @ver, @ptype, @payload);
+      `);
+
+    await pool.request()
+      .input('tid', SQL.UniqueIdentifier, trg.recordset[0].Id)
+      .input('qid', SQL.UniqueIdentifier, qrId)
+      .query('UPDATE dbo.[QR_Code] SET CurrentTargetId=@tid WHERE Id=@qid;');
+    await endActiveSchedules(pool, qrId);
+
+    // Static codes carry the payload in the symbol, so existing prints keep the old content
+    reply.send({ success: true, version: nextVer, reprintRequired: !!Static });
+  });
+}
@@ -0,0 +1,244 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getPool, SQL } from '../db';
+import type { AccessPayload } from '../lib/jwt';
+import { getUserOrThrow } from '../lib/request';
+import { normalizeUrl } from '../lib/url';
+import { assertSafeUrl } from '../lib/screening';
+import { requestDomainId, sameDomain } from '../lib/domains';
+import { UtmFields, findOrCreateTarget, utmJson } from '../lib/targets';
+import { conversionCookieName, scannerCookieName, splitCookieName } from '../lib/routing';
+import { twoProportionTest } from '../lib/stats';
+
+const Variant = z.object({
+  id: z.uuid().optional(), // an existing variant to update; variants without one are added
+  name: z.string().trim().min(1, { message: 'Each variant needs a name' }).max(200),
+  url: z.string().trim().min(1, { message: 'Each variant needs a URL' }),
+  weight: z.coerce.number().int().min(0).max(1000, { message: 'Weight must be between 0 and 1000' }),
+  ...UtmFields
+});
+
+const SaveVariants = z.object({
+  variants: z.array(Variant).max(10, { message: 'At most 10 variants per QR code' })
+}).refine(b => b.variants.length === 0 || b.variants.some(v => v.weight > 0), {
+  message: 'At least one variant needs a weight above 0'
+});
+
+export default async function variantRoutes(app: FastifyInstance) {
+  // ---------- List split-test variants ----------
+  app.get('/api/qr/:slug/variants', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .query(`
+        SELECT v.Id, v.Position, v.Name, v.Weight, t.Id AS Target_Id, t.[Version], t.Url, t.UTM
+        FROM dbo.[QR_Split_Variant] v
+        JOIN dbo.[QR_Code] q ON q.Id = v.QR_Code_Id
+        JOIN dbo.[QR_Target] t ON t.Id = v.Target_Id
+        WHERE q.Slug = @slug AND q.User_Id = @uid AND v.DeletedAt IS NULL
+        ORDER BY v.Position
+      `);
+
+    reply.send(r.recordset.map(row => {
+      let utm = {};
+      try { utm = row.UTM ? JSON.parse(row.UTM) : {}; } catch (e) { console.error('Error parsing UTM:', e); }
+      return { ...row, UTM: utm };
+    }));
+  });
+
+  // ---------- Save split-test variants (empty list ends the test) ----------
+  // Variants sent with their id are updated in place, so their scans, conversions and assigned
+  // scanners carry over; variants left out are retired
+  app.post('/api/qr/:slug/variants', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const parsed = SaveVariants.safeParse(req.body);
+    if (!parsed.success) {
+      const msg = parsed.error.issues.map(e => e.message).join(', ');
+      return reply.code(400).send({ error: msg });
+    }
+
+    let variants;
+    try {
+      variants = parsed.data.variants.map(v => ({
+        id: v.id?.toLowerCase() ?? null,
+        name: v.name,
+        weight: v.weight,
+        url: normalizeUrl(v.url),
+        utm: utmJson(v)
+      }));
+      for (const v of variants) await assertSafeUrl(v.url);
+    } catch (e: any) {
+      return reply.code(400).send({ error: e.message });
+    }
+
+    const pool = await getPool();
+    const q = await pool.request()
+      .input('slug', SQL.NVarChar(64), slug)
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .query('SELECT TOP 1 Id FROM dbo.[QR_Code] WHERE Slug=@slug AND User_Id=@uid AND DeletedAt IS NULL;');
+    if (!q.recordset.length) return reply.code(404).send({ error: 'QR code not found' });
+    const qrId = q.recordset[0].Id as string;
+
+    const tx = new SQL.Transaction(pool);
+    await tx.begin();
+    try {
+      const current = await new SQL.Request(tx)
+        .input('qid', SQL.UniqueIdentifier, qrId)
+        .query('SELECT Id FROM dbo.[QR_Split_Variant] WITH (UPDLOCK) WHERE QR_Code_Id=@qid AND DeletedAt IS NULL;');
+      const unclaimed = new Set<string>(current.recordset.map(row => String(row.Id).toLowerCase()));
+
+      for (let i = 0; i < variants.length; i++) {
+        const v = variants[i];
+        const targetId = await findOrCreateTarget(tx, qrId, v.url, v.utm);
+
+        // An id that isn't one of this code's live variants (or is repeated) is added as a new variant
+        const existing = v.id && unclaimed.delete(v.id) ? v.id : null;
+        await new SQL.Request(tx)
+          .input('id', SQL.UniqueIdentifier, existing)
+          .input('qid', SQL.UniqueIdentifier, qrId)
+          .input('tid', SQL.UniqueIdentifier, targetId)
+          .input('pos', SQL.Int, i)
+          .input('name', SQL.NVarChar(200), v.name)
+          .input('weight', SQL.Int, v.weight)
+          .query(existing
+            ? 'UPDATE dbo.[QR_Split_Variant] SET Target_Id=@tid, Position=@pos, Name=@name, Weight=@weight WHERE Id=@id AND QR_Code_Id=@qid;'
+            : `INSERT INTO dbo.[QR_Split_Variant] (QR_Code_Id, Target_Id, Position, Name, Weight)
+               VALUES (@qid, @tid, @pos, @name, @weight);`);
+      }
+
+      for (const id of unclaimed) {
+        await new SQL.Request(tx)
+          .input('id', SQL.UniqueIdentifier, id)
+          .query('UPDATE dbo.[QR_Split_Variant] SET DeletedAt=SYSUTCDATETIME() WHERE Id=@id;');
+      }
+
+      await tx.commit();
+    } catch (e) {
+      await tx.rollback();
+      console.error('Saving variants failed:', e);
+      return reply.code(500).send({ error: 'Failed to save variants' });
+    }
+
+    reply.send({ success: true, count: variants.length });
+  });
+
+  // ---------- Split-test results ----------
+  app.get('/api/qr/:slug/variants/results', async (req, reply) => {
+    let user: AccessPayload;
+    try { user = getUserOrThrow(req); }
+    catch { return reply.code(401).send({ error: 'unauthorized' }); }
+
+    const { slug } = req.params as any;
+    const pool = await getPool();
+    const r = await pool.request()
+      .input('uid', SQL.UniqueIdentifier, user.sub)
+      .input('slug', SQL.NVarChar(64), slug)
+      .query(`
+        SELECT v.Id, v.Name, v.Weight, t.Url,
+          (SELECT COUNT(*) FROM dbo.[QR_Scan] s WHERE s.Variant_Id = v.Id AND s.Is_Prefetch = 0) AS Scans,
+          (SELECT COUNT(DISTINCT s.Scanner_Id) FROM dbo.[QR_Scan] s WHERE s.Variant_Id = v.Id AND s.Is_Prefetch = 0) AS Scanners,
+          (SELECT COUNT(DISTINCT c.Scanner_Id) FROM dbo.[QR_Conversion] c
+            WHERE c.Variant_Id = v.Id AND EXISTS (
+              SELECT 1 FROM dbo.[QR_Scan] s WHERE s.Variant_Id = v.Id AND s.Scanner_Id = c.Scanner_Id AND s.Is_Prefetch = 0
+            )) AS Conversions
+        FROM dbo.[QR_Split_Variant] v
+        JOIN dbo.[QR_Code] q ON q.Id = v.QR_Code_Id
+        JOIN dbo.[QR_Target] t ON t.Id = v.Target_Id
+        WHERE q.Slug = @slug AND q.User_Id = @uid AND v.DeletedAt IS NULL
+        ORDER BY v.Position
+      `);
+
+    // Rates are per scanner: a conversion counts once per scanner id, and only for a scanner that
+    // scanned this variant, so Conversions never exceeds Scanners. Scans is the raw total.
+    const rows = r.recordset;
+
+    // First variant is the control; every other variant is compared against it
+    const control = rows[0];
+    const results = rows.map((row, i) => {
+      const rate = row.Scanners ? row.Conversions / row.Scanners : 0;
+      if (i === 0) return { ...row, ConversionRate: rate, Control: true, ZScore: null, PValue: null, Significant: false };
+      const { z: zScore, pValue } = twoProportionTest(control.Conversions, control.Scanners, row.Conversions, row.Scanners);
+      return {
+        ...row,
+        ConversionRate: rate,
+        Control: false,
+        ZScore: zScore,
+        PValue: pValue,
+        Significant: pValue !== null && pValue < 0.05
+      };
+    });
+
+    reply.send(results);
+  });
+
+  // ---------- Record a conversion for the scanner's assigned variant ----------
+  app.route({
+    method: ['GET', 'POST'],
+    url: '/r/:slug/convert',
+    handler: async (req, reply) => {
+      const { slug } = req.params as any;
+      const pool = await getPool();
+      const q = await pool.request()
+        .input('slug', SQL.NVarChar(64), slug)
+        .input('did', SQL.UniqueIdentifier, await requestDomainId(pool, req))
+        .query(`
+          SELECT TOP 1 q.Id FROM dbo.[QR_Code] q
+          WHERE (q.Slug = @slug AND ${sameDomain('q.Domain_Id')})
+            OR q.Id = (SELECT a.QR_Code_Id FROM dbo.[QR_Slug_Alias] a WHERE a.Slug = @slug AND ${sameDomain('a.Domain_Id')})
+        `);
+      if (!q.recordset.length) return reply.code(404).send({ error: 'Not found' });
+      const qrId = q.recordset[0].Id as string;
+
+      const variantId = (req.cookies as any)?.[splitCookieName(qrId)] as string | undefined;
+      if (!variantId || !z.string().uuid().safeParse(variantId).success) {
+        return reply.code(204).send();
+      }
+
+      // Results are per scanner, so a conversion without the scanner id can't be attributed
+      const scannerId = (req.cookies as any)?.[scannerCookieName(qrId)] as string | undefined;
+      if (!scannerId || !z.string().uuid().safeParse(scannerId).success) {
+        return reply.code(204).send();
+      }
+
+      // One conversion per scanner and variant: reloads and repeated pixels are not counted again
+      const convertedCookie = conversionCookieName(qrId);
+      if (String((req.cookies as any)?.[convertedCookie] || '').toLowerCase() === variantId.toLowerCase()) {
+        return reply.code(204).send();
+      }
+
+      // Only count conversions for variants that still belong to this QR code
+      const r = await pool.request()
+        .input('qid', SQL.UniqueIdentifier, qrId)
+        .input('vid', SQL.UniqueIdentifier, variantId)
+        .input('sid', SQL.UniqueIdentifier, scannerId)
+        .query(`
+          INSERT INTO dbo.[QR_Conversion] (QR_Code_Id, Variant_Id, Scanner_Id)
+          SELECT @qid, v.Id, @sid FROM dbo.[QR_Split_Variant] v
+          WHERE v.Id = @vid AND v.QR_Code_Id = @qid AND v.DeletedAt IS NULL
+            AND NOT EXISTS (SELECT 1 FROM dbo.[QR_Conversion] c WHERE c.Variant_Id = @vid AND c.Scanner_Id = @sid);
+        `);
+
+      if (r.rowsAffected[0]) {
+        const secure = req.protocol === 'https';
+        reply.setCookie(convertedCookie, variantId.toLowerCase(), {
+          httpOnly: true,
+          sameSite: secure ? 'none' : 'lax',
+          secure,
+          path: '/r/',
+          maxAge: 90 * 24 * 3600
+        });
+      }
+      reply.code(204).send();
+    }
+  });
+}
@@ -5,10 +5,31 @@ import fastifyStatic from '@fastify/static';
 import formBody from '@fastify/formbody';
 import multipart from '@fastify/multipart';
 import path from 'node:path';
-import fs from 'node:fs/promises';
+import { env } from './config';
 import { verifyAccess } from './lib/jwt';
+import { ASSET_CSP, LEGACY_UPLOAD_DIR } from './lib/assets';
 import authRoutes from './routes/auth';
 import qrRoutes from './routes/qr';
+import targetRoutes from './routes/targets';
+import ruleRoutes from './routes/rules';
+import variantRoutes from './routes/variants';
+import policyRoutes from './routes/policies';
+import archiveRoutes from './routes/archive';
+import bulkRoutes from './routes/bulk';
+import aliasRoutes from './routes/aliases';
+import landingPageRoutes from './routes/landingPages';
+import presetRoutes from './routes/presets';
+import tagRoutes from './routes/tags';
+import cloneRoutes from './routes/clone';
+import linkHealthRoutes from './routes/linkHealth';
+import domainRoutes from './routes/domains';
+import assetRoutes from './routes/assets';
+import fileRoutes from './routes/files';
+import { startPurgeTrashJob } from './jobs/purgeTrash';
+import { startLinkHealthJob } from './jobs/linkHealth';
+import { startScreenUrlsJob } from './jobs/screenUrls';
+import { startCleanupAssetsJob } from './jobs/cleanupAssets';
+import { startPruneStorageJob } from './jobs/pruneStorage';
 
 async function start() {
   const app = Fastify({ logger: true });
@@ -22,48 +43,26 @@ async function start() {
   // parse form bodies (x-www-form-urlencoded)
   await app.register(formBody);
 
-  // multipart for logo uploads (limit ~500 KB)
-  await app.register(multipart, { limits: { fileSize: 500_000 } });
+  // multipart for logo uploads (large rasters are downscaled after upload)
+  await app.register(multipart, { limits: { fileSize: env.ASSET_MAX_UPLOAD_MB * 1024 * 1024, files: 1 } });
 
   // serve static files (html, css, uploads, etc.)
   await app.register(fastifyStatic, {
     root: path.join(process.cwd(), 'public'),
     prefix: '/',
     decorateReply: false,
+    // legacy uploads were never checked: same headers as /assets/:id
+    setHeaders: (res, file) => {
+      if (file.startsWith(LEGACY_UPLOAD_DIR + path.sep)) {
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+        res.setHeader('Content-Security-Policy', ASSET_CSP);
+      }
+    },
   });
 
   // health check
   app.get('/health', async () => ({ ok: true }));
 
-  // uploads endpoint for logo images
-  app.post('/uploads', async (req, reply) => {
-    const parts = req.parts();
-    let filePart: any = null;
-    for await (const part of parts) {
-      if (part.type === 'file' && part.fieldname === 'file') {
-        filePart = part;
-        break;
-      }
-    }
-    if (!filePart) return reply.code(400).send({ error: 'No file' });
-
-    const buf = await filePart.toBuffer();
-    const ext = (filePart.filename || '').toLowerCase().split('.').pop() || 'png';
-    const allowed = ['png','jpg','jpeg','svg'];
-    if (!allowed.includes(ext)) return reply.code(400).send({ error: 'Invalid type' });
-
-    const name = `${Date.now().toString(36)}-${Math.random().toString(16).slice(2)}.${ext}`;
-    const outDir = path.join(process.cwd(), 'public', 'uploads');
-    await fs.mkdir(outDir, { recursive: true });
-    const outPath = path.join(outDir, name);
-    await fs.writeFile(outPath, buf);
-
-    const url = `/uploads/${name}`;
-    const mime = ext === 'png' ? 'image/png' : ext === 'jpg' || ext === 'jpeg' ? 'image/jpeg' : ext === 'svg' ? 'image/svg+xml' : 'application/octet-stream';
-    const dataUrl = `data:${mime};base64,${buf.toString('base64')}`;
-    reply.send({ url, dataUrl });
-  });
-
   // who am I
   app.get('/api/me', async (req, reply) => {
     const at = (req.cookies as any)?.at as string | undefined;
@@ -79,6 +78,21 @@ async function start() {
   // register routes
   await authRoutes(app);
   await qrRoutes(app);
+  await targetRoutes(app);
+  await ruleRoutes(app);
+  await variantRoutes(app);
+  await policyRoutes(app);
+  await archiveRoutes(app);
+  await bulkRoutes(app);
+  await aliasRoutes(app);
+  await landingPageRoutes(app);
+  await presetRoutes(app);
+  await tagRoutes(app);
+  await cloneRoutes(app);
+  await linkHealthRoutes(app);
+  await domainRoutes(app);
+  await assetRoutes(app);
+  await fileRoutes(app);
 
   // default redirect to login
   app.get('/', async (_req, reply) => reply.redirect('/login.html'));
@@ -87,6 +101,11 @@ async function start() {
   try {
     await app.listen({ port });
     app.log.info(`API running at http://localhost:${port}`);
+    startPurgeTrashJob(app.log);
+    startLinkHealthJob(app.log);
+    startScreenUrlsJob(app.log);
+    startCleanupAssetsJob(app.log);
+    startPruneStorageJob(app.log);
   } catch (err) {
     app.log.error(err);
     process.exit(1);